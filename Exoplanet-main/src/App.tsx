@@ -1,30 +1,45 @@
-import { BrowserRouter, Routes, Route } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, Outlet } from 'react-router-dom';
 import { Navbar } from './components/Navbar';
 import { Footer } from './components/Footer';
 import { Starfield } from './components/Starfield';
 import { Dashboard } from './pages/Dashboard';
 import { Specifications } from './pages/Specifications';
 import { History } from './pages/History';
+import { HistoryEntry } from './pages/HistoryEntry';
 import { Explorer } from './pages/Explorer';
 import { Learning } from './pages/Learning';
+import { Settings } from './pages/Settings';
+import { Report } from './pages/Report';
 
-function App() {
+function AppLayout() {
   return (
-    <BrowserRouter>
-      <div className="min-h-screen bg-gradient-to-b from-gray-900 via-black to-gray-900 text-white relative overflow-x-hidden">
-        <Starfield />
-        <div className="relative z-10">
-          <Navbar />
-          <Routes>
-            <Route path="/" element={<Dashboard />} />
-            <Route path="/specifications" element={<Specifications />} />
-            <Route path="/history" element={<History />} />
-            <Route path="/explorer" element={<Explorer />} />
-            <Route path="/learning" element={<Learning />} />
-          </Routes>
-          <Footer />
-        </div>
+    <div className="min-h-screen bg-gradient-to-b from-gray-900 via-black to-gray-900 text-white relative overflow-x-hidden">
+      <Starfield />
+      <div className="relative z-10">
+        <Navbar />
+        <Outlet />
+        <Footer />
       </div>
+    </div>
+  );
+}
+
+function App() {
+  return (
+    <BrowserRouter basename={import.meta.env.BASE_URL}>
+      <Routes>
+        <Route element={<AppLayout />}>
+          <Route path="/" element={<Dashboard />} />
+          <Route path="/specifications" element={<Specifications />} />
+          <Route path="/history" element={<History />} />
+          <Route path="/history/:id" element={<HistoryEntry />} />
+          <Route path="/explorer" element={<Explorer />} />
+          <Route path="/learning" element={<Learning />} />
+          <Route path="/settings" element={<Settings />} />
+        </Route>
+        {/* Printed as is, so it skips the app chrome */}
+        <Route path="/report/:id" element={<Report />} />
+      </Routes>
     </BrowserRouter>
   );
 }
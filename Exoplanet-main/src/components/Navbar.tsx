@@ -8,7 +8,8 @@ const navItems = [
   { path: '/specifications', label: 'Model Specifications' },
   { path: '/history', label: 'Prediction History' },
   { path: '/explorer', label: 'Data Explorer' },
-  { path: '/learning', label: 'Learning Center' }
+  { path: '/learning', label: 'Learning Center' },
+  { path: '/settings', label: 'Settings' }
 ];
 
 export function Navbar() {
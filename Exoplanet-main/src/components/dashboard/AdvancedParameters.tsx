@@ -0,0 +1,85 @@
+import { AdvancedField, FlagField, InputUncertainties, NumericInputField, PredictionInput, UnitPreferences } from '../../types';
+import { inputFieldInfo, flagFieldInfo } from '../../data/inputFields';
+import { fieldUnits } from '../../utils/units';
+import { UnitInput } from './UnitInput';
+
+interface AdvancedParametersProps {
+  fields: AdvancedField[];
+  values: PredictionInput;
+  units: UnitPreferences;
+  onChange: (key: AdvancedField, value: number | boolean | undefined) => void;
+  onUnitChange: (field: NumericInputField, unitId: string) => void;
+  uncertainties: InputUncertainties;
+  // Shows a ± box per numeric field when given
+  onUncertaintyChange?: (field: NumericInputField, uncertainty: number | undefined) => void;
+}
+
+function isFlag(field: AdvancedField): field is FlagField {
+  return field in flagFieldInfo;
+}
+
+export function AdvancedParameters({
+  fields,
+  values,
+  units,
+  onChange,
+  onUnitChange,
+  uncertainties,
+  onUncertaintyChange
+}: AdvancedParametersProps) {
+  const numeric = fields.filter((f): f is Exclude<AdvancedField, FlagField> => !isFlag(f));
+  const flags = fields.filter(isFlag);
+
+  return (
+    <div className="space-y-6">
+      {numeric.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {numeric.map((field) => {
+            const info = inputFieldInfo[field];
+            return (
+              <UnitInput
+                key={field}
+                field={field}
+                label={info.unit && !fieldUnits[field] ? `${info.label} (${info.unit})` : info.label}
+                min={info.min}
+                max={info.max}
+                placeholder="Not provided"
+                value={values[field]}
+                units={units}
+                onChange={(v) => onChange(field, v)}
+                onUnitChange={onUnitChange}
+                uncertainty={uncertainties[field]}
+                onUncertaintyChange={onUncertaintyChange}
+              />
+            );
+          })}
+        </div>
+      )}
+
+      {flags.length > 0 && (
+        <div>
+          <p className="text-sm font-medium text-gray-300 mb-3">False-positive flags</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {flags.map((field) => (
+              <label
+                key={field}
+                className="flex items-start space-x-3 p-3 bg-gray-900/50 border border-gray-700 rounded-lg cursor-pointer hover:border-cyan-500/40 transition-colors"
+              >
+                <input
+                  type="checkbox"
+                  checked={values[field] ?? false}
+                  onChange={(e) => onChange(field, e.target.checked)}
+                  className="mt-1 accent-cyan-500"
+                />
+                <span>
+                  <span className="block text-sm text-white">{flagFieldInfo[field].label}</span>
+                  <span className="block text-xs text-gray-500">{flagFieldInfo[field].description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
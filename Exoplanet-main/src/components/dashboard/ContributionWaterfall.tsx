@@ -0,0 +1,174 @@
+import { useState, useEffect } from 'react';
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { ModelType, PredictionInput, PredictionResult } from '../../types';
+import { classColors } from '../../data/models';
+import {
+  ContributionBreakdown,
+  ContributionMethod,
+  explainPrediction,
+  medianProbeBreakdown,
+  medianProbeCount
+} from '../../utils/contributions';
+import { CancelledError, describeError } from '../../services/errors';
+import { Button } from '../ui/Button';
+import { Loader2 } from 'lucide-react';
+
+interface ContributionWaterfallProps {
+  input: PredictionInput;
+  model: ModelType;
+  prediction: PredictionResult;
+  // Offers probing the backend when the bundled forest can't explain the result; off for stored
+  // results, which today's backend may no longer reproduce
+  allowProbe?: boolean;
+}
+
+const ENDPOINT_COLOR = '#8b5cf6';
+
+const methodNotes: Record<ContributionMethod, (model: ModelType, probes: number) => string> = {
+  heuristic_weights: () =>
+    "Exact split of the offline heuristic's weighted sum. Each input is measured from the middle of its range, so one scoring below the middle counts against candidate.",
+  tree_path: (model) =>
+    `Exact split along the decision paths of the ${model} forest bundled with this build: every split a tree makes is credited to the input it splits on. The model's feature importances aren't used, since they rank inputs over the whole training set rather than for this prediction.`,
+  median_probe: (_, probes) =>
+    `Each bar is how far P(candidate) moves when that input alone is reset to its training median, from ${probes} extra backend runs that aren't recorded in history. Interactions is what the single resets don't account for.`
+};
+
+function signed(value: number): string {
+  return `${value >= 0 ? '+' : '−'}${Math.abs(value * 100).toFixed(1)}`;
+}
+
+/**
+ * Waterfall of how each input moved the prediction toward candidate or false
+ * positive, from a baseline to the final value (see utils/contributions).
+ */
+export function ContributionWaterfall({ input, model, prediction, allowProbe = false }: ContributionWaterfallProps) {
+  const [breakdown, setBreakdown] = useState<ContributionBreakdown | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // The result the user asked to probe the backend for; a new result starts without probing
+  const [probedResult, setProbedResult] = useState<PredictionResult | null>(null);
+  const probing = probedResult === prediction;
+  const probeCount = allowProbe ? medianProbeCount(input, prediction) : 0;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsLoading(true);
+    setError(null);
+    setBreakdown(null);
+
+    (probing ? medianProbeBreakdown(input, model, prediction, controller.signal) : explainPrediction(input, model, prediction))
+      .then((result) => {
+        if (controller.signal.aborted) return;
+        setBreakdown(result);
+        setIsLoading(false);
+      })
+      .catch((err) => {
+        if (err instanceof CancelledError || controller.signal.aborted) return;
+        console.error('Contribution breakdown failed:', err);
+        setError(describeError(err).message);
+        setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [input, model, prediction, probing]);
+
+  if (isLoading) {
+    return (
+      <p className="flex items-center text-sm text-gray-400">
+        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+        {probing ? `Probing the backend (up to ${probeCount} runs)...` : 'Working out contributions...'}
+      </p>
+    );
+  }
+  if (error) return <p className="text-sm text-red-400">{error}</p>;
+  if (!breakdown && !probing && probeCount > 0) {
+    return (
+      <div className="text-sm text-gray-500 space-y-3">
+        <p>
+          The {model} forest bundled with this build doesn't reproduce this result, so it can't be split exactly. The
+          backend can be probed instead: it reruns the model with each input reset to its training median, in up to{' '}
+          {probeCount} extra runs that aren't recorded in history.
+        </p>
+        <Button type="button" variant="outline" size="sm" onClick={() => setProbedResult(prediction)}>
+          Probe the backend
+        </Button>
+      </div>
+    );
+  }
+  if (!breakdown) {
+    return (
+      <p className="text-sm text-gray-500">
+        {prediction.source === 'server_heuristic'
+          ? "No breakdown for this result: the backend's fallback scoring doesn't report per-input terms."
+          : prediction.source === 'model' && !allowProbe
+            ? "No breakdown for this stored result: the bundled forest doesn't reproduce it, and the backend as it is now can't explain a past result."
+            : 'No breakdown for this result: it needs a forest export with per-node values, or a backend result that lists feature importances.'}
+      </p>
+    );
+  }
+
+  let running = breakdown.base;
+  const rows = [
+    { name: breakdown.baseLabel, range: [0, breakdown.base], contribution: breakdown.base, endpoint: true },
+    ...breakdown.contributions.map((c) => {
+      const start = running;
+      running += c.contribution;
+      return {
+        name: c.notEntered ? `${c.label} (not entered)` : c.label,
+        range: [Math.min(start, running), Math.max(start, running)],
+        contribution: c.contribution,
+        endpoint: false
+      };
+    }),
+    { name: breakdown.quantity, range: [0, breakdown.total], contribution: breakdown.total, endpoint: true }
+  ];
+  const probes = breakdown.contributions.filter((c) => c.field !== null).length + 1;
+
+  return (
+    <div>
+      <div style={{ height: Math.max(200, rows.length * 34) }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={rows} layout="vertical" margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#374151" horizontal={false} />
+            <XAxis
+              type="number"
+              stroke="#9ca3af"
+              domain={[
+                (min: number) => Math.min(0, Math.floor(min * 10) / 10),
+                (max: number) => Math.max(1, Math.ceil(max * 10) / 10)
+              ]}
+              tickFormatter={(v: number) => `${Math.round(v * 100)}%`}
+            />
+            <YAxis type="category" dataKey="name" width={170} stroke="#9ca3af" tick={{ fontSize: 12 }} />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151', borderRadius: '8px' }}
+              labelStyle={{ color: '#fff' }}
+              formatter={(_value, _name, item) => {
+                const row = item.payload as (typeof rows)[number];
+                return row.endpoint
+                  ? [`${(row.contribution * 100).toFixed(1)}%`, breakdown.quantity]
+                  : [`${signed(row.contribution)} points`, row.contribution >= 0 ? 'Toward candidate' : 'Toward false positive'];
+              }}
+            />
+            <ReferenceLine x={breakdown.base} stroke="#6b7280" strokeDasharray="4 4" />
+            <Bar dataKey="range" radius={[0, 4, 4, 0]} isAnimationActive={false}>
+              {rows.map((row) => (
+                <Cell
+                  key={row.name}
+                  fill={
+                    row.endpoint
+                      ? ENDPOINT_COLOR
+                      : row.contribution >= 0
+                        ? classColors.candidate
+                        : classColors.false_positive
+                  }
+                />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+      <p className="text-xs text-gray-500 mt-3">{methodNotes[breakdown.method](model, probes)}</p>
+    </div>
+  );
+}
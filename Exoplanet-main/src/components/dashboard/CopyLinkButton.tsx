@@ -0,0 +1,37 @@
+import { useState, useEffect } from 'react';
+import { Button } from '../ui/Button';
+import { Link2, Check } from 'lucide-react';
+
+interface CopyLinkButtonProps {
+  url: string;
+  label?: string;
+}
+
+export function CopyLinkButton({ url, label = 'Copy Link' }: CopyLinkButtonProps) {
+  const [state, setState] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+  useEffect(() => {
+    if (state === 'idle') return;
+    const timer = window.setTimeout(() => setState('idle'), 2000);
+    return () => window.clearTimeout(timer);
+  }, [state]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setState('copied');
+    } catch (error) {
+      // Clipboard access needs a secure context; let the user copy it by hand instead
+      console.error('Failed to copy link:', error);
+      window.prompt('Copy this link:', url);
+      setState('failed');
+    }
+  };
+
+  return (
+    <Button type="button" variant="outline" size="sm" onClick={handleCopy} title={url}>
+      {state === 'copied' ? <Check className="w-4 h-4 mr-2 text-green-400" /> : <Link2 className="w-4 h-4 mr-2" />}
+      {state === 'copied' ? 'Copied!' : label}
+    </Button>
+  );
+}
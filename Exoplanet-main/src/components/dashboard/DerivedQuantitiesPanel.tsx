@@ -0,0 +1,93 @@
+import { PredictionInput } from '../../types';
+import { deriveQuantities } from '../../utils/astrophysics';
+import { Card } from '../ui/Card';
+import { Orbit } from 'lucide-react';
+
+interface DerivedQuantitiesPanelProps {
+  input: PredictionInput;
+  // Bare grid for embedding in a list entry instead of a titled card
+  compact?: boolean;
+}
+
+function fmt(value: number, digits = 3): string {
+  if (!Number.isFinite(value)) return '—';
+  return Math.abs(value) >= 1000 ? value.toFixed(0) : String(Number(value.toPrecision(digits)));
+}
+
+// Entered values more than a factor of two from the derived one are highlighted
+function isOff(entered: number, derived: number): boolean {
+  const ratio = entered / derived;
+  return Number.isFinite(ratio) && (ratio < 0.5 || ratio > 2);
+}
+
+export function DerivedQuantitiesPanel({ input, compact = false }: DerivedQuantitiesPanelProps) {
+  const d = deriveQuantities(input);
+
+  const rows = [
+    {
+      label: 'Semi-major axis',
+      value: `${fmt(d.semiMajorAxisAu)} AU`,
+      note: "Kepler's third law"
+    },
+    {
+      label: 'Insolation',
+      value: `${fmt(d.insolation)} S⊕`,
+      note: 'Stellar flux relative to Earth'
+    },
+    {
+      label: 'Radius ratio',
+      value: `Rp/R* = ${fmt(d.radiusRatio)}`,
+      note: `Depth implies ${fmt(d.radiusFromDepth)} R⊕ (entered ${fmt(input.planetRadius)})`,
+      off: isOff(input.planetRadius, d.radiusFromDepth)
+    },
+    {
+      label: 'Central transit duration',
+      value: Number.isFinite(d.centralDurationHours) ? `${fmt(d.centralDurationHours)} h` : 'Orbit inside star',
+      note: `Entered ${fmt(input.transitDuration)} h`,
+      off: !Number.isFinite(d.centralDurationHours) || input.transitDuration > d.centralDurationHours * 1.25
+    },
+    {
+      label: 'Equilibrium temperature',
+      value: `${fmt(d.equilibriumTemperature)} K`,
+      note: `Entered ${fmt(input.planetTemperature)} K (×${fmt(d.temperatureRatio, 2)})`,
+      off: isOff(input.planetTemperature, d.equilibriumTemperature)
+    }
+  ];
+
+  const grid = (
+    <>
+      <div className={`grid grid-cols-1 sm:grid-cols-2 ${compact ? 'lg:grid-cols-5 gap-3' : 'lg:grid-cols-3 gap-4'}`}>
+        {rows.map((row) => (
+          <div
+            key={row.label}
+            className={`p-3 rounded-lg border ${row.off ? 'bg-yellow-500/5 border-yellow-500/30' : 'bg-gray-900/50 border-gray-700'}`}
+          >
+            <p className="text-xs text-gray-500 mb-1">{row.label}</p>
+            <p className={`font-semibold ${compact ? 'text-sm' : 'text-lg'} ${row.off ? 'text-yellow-400' : 'text-white'}`}>
+              {row.value}
+            </p>
+            <p className="text-xs text-gray-500 mt-1">{row.note}</p>
+          </div>
+        ))}
+      </div>
+      {d.assumedStar && (
+        <p className="text-xs text-gray-500 mt-3">
+          Stellar radius, mass or temperature weren't entered; solar values are used in their place. Equilibrium
+          temperature assumes an Earth-like albedo of 0.3.
+        </p>
+      )}
+    </>
+  );
+
+  if (compact) return grid;
+
+  return (
+    <Card className="p-8">
+      <h3 className="text-2xl font-bold text-white mb-6 flex items-center">
+        <Orbit className="w-6 h-6 mr-3 text-cyan-400" />
+        Derived Quantities
+      </h3>
+      {grid}
+    </Card>
+  );
+}
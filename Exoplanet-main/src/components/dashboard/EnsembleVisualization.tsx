@@ -0,0 +1,139 @@
+import { motion } from 'framer-motion';
+import { Card } from '../ui/Card';
+import { ModelType, PredictionResult } from '../../types';
+import { models } from '../../data/models';
+import { computeConsensus } from '../../utils/ensemble';
+import { SourceBadge } from './SourceBadge';
+import { CheckCircle2, XCircle, AlertCircle, AlertTriangle, Loader2, Users } from 'lucide-react';
+
+interface EnsembleVisualizationProps {
+  results: Partial<Record<ModelType, PredictionResult>> | null;
+  errors: Partial<Record<ModelType, string>>;
+  isProcessing: boolean;
+}
+
+const statusConfig = {
+  candidate: { icon: CheckCircle2, color: 'text-green-400', bar: 'bg-green-500', label: 'Candidate' },
+  false_positive: { icon: XCircle, color: 'text-red-400', bar: 'bg-red-500', label: 'False Positive' },
+  unknown: { icon: AlertCircle, color: 'text-yellow-400', bar: 'bg-yellow-500', label: 'Uncertain' }
+};
+
+export function EnsembleVisualization({ results, errors, isProcessing }: EnsembleVisualizationProps) {
+  const missions = Object.keys(models) as ModelType[];
+  const consensus = results ? computeConsensus(results) : null;
+
+  return (
+    <Card className="p-8" gradient>
+      <h3 className="text-2xl font-bold text-white mb-6 flex items-center">
+        <span className="mr-3">🛰️</span>
+        Cross-Mission Verdicts
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+        {missions.map((mission, idx) => {
+          const result = results?.[mission];
+          const failure = errors[mission];
+          const config = result ? statusConfig[result.status] : null;
+          const Icon = config?.icon;
+
+          return (
+            <motion.div
+              key={mission}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: idx * 0.1 }}
+              className="p-5 bg-gray-900/50 rounded-xl border border-gray-700"
+            >
+              <div className="flex items-center space-x-2 mb-4">
+                <span className="text-2xl">{models[mission].logo}</span>
+                <h4 className="text-lg font-bold text-white">{mission}</h4>
+              </div>
+
+              {isProcessing && !result && (
+                <div className="flex items-center space-x-2 text-gray-400">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  <span className="text-sm">Analyzing...</span>
+                </div>
+              )}
+
+              {failure && (
+                <p className="text-sm text-red-400">{failure}</p>
+              )}
+
+              {result && config && Icon && (
+                <>
+                  <p className={`text-xl font-bold ${config.color} flex items-center space-x-2 mb-3`}>
+                    <Icon className="w-5 h-5" />
+                    <span>{config.label}</span>
+                  </p>
+                  <div className="flex justify-between text-xs text-gray-400 mb-1">
+                    <span>Confidence</span>
+                    <span className={config.color}>{Math.round(result.confidence * 100)}%</span>
+                  </div>
+                  <div className="h-2 bg-gray-700 rounded-full overflow-hidden mb-4">
+                    <motion.div
+                      className={`h-full ${config.bar}`}
+                      initial={{ width: 0 }}
+                      animate={{ width: `${result.confidence * 100}%` }}
+                      transition={{ duration: 0.8, ease: 'easeOut' }}
+                    />
+                  </div>
+                  <SourceBadge source={result.source} size="sm" />
+                </>
+              )}
+            </motion.div>
+          );
+        })}
+      </div>
+
+      {consensus && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.4 }}
+          className="space-y-4"
+        >
+          {consensus.disagreement ? (
+            <div className="p-4 bg-amber-500/10 border border-amber-500/30 rounded-lg flex items-start space-x-3">
+              <AlertTriangle className="w-5 h-5 text-amber-400 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-amber-200">
+                <span className="font-semibold">Missions disagree.</span> The models reach different verdicts on this signal,
+                so it should go to human vetting.
+              </p>
+            </div>
+          ) : (
+            <div className="p-4 bg-green-500/10 border border-green-500/30 rounded-lg flex items-start space-x-3">
+              <CheckCircle2 className="w-5 h-5 text-green-400 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-green-200">All missions agree on this verdict.</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="p-4 bg-gray-900/50 rounded-xl border border-gray-700">
+              <p className="text-gray-400 text-sm mb-1 flex items-center">
+                <Users className="w-4 h-4 mr-2" />
+                Majority Vote
+              </p>
+              <p className={`text-2xl font-bold ${statusConfig[consensus.majority].color}`}>
+                {statusConfig[consensus.majority].label}
+              </p>
+              <p className="text-xs text-gray-500 mt-1">
+                {consensus.majorityVotes} of {Object.keys(results ?? {}).length} missions
+                {consensus.majority === 'unknown' && consensus.disagreement ? ' (tied or uncertain)' : ''}
+              </p>
+            </div>
+            <div className="p-4 bg-gray-900/50 rounded-xl border border-gray-700">
+              <p className="text-gray-400 text-sm mb-1">Confidence-Weighted</p>
+              <p className={`text-2xl font-bold ${statusConfig[consensus.weighted].color}`}>
+                {statusConfig[consensus.weighted].label}
+              </p>
+              <p className="text-xs text-gray-500 mt-1">
+                {Math.round(consensus.weightedShare * 100)}% of the summed confidence
+              </p>
+            </div>
+          </div>
+        </motion.div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,33 @@
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { FeatureImportance } from '../../types';
+import { featureLabels } from '../../data/models';
+
+interface FeatureImportanceChartProps {
+  importances: FeatureImportance[];
+}
+
+export function FeatureImportanceChart({ importances }: FeatureImportanceChartProps) {
+  const data = [...importances]
+    .sort((a, b) => b.importance - a.importance)
+    .map((f) => ({
+      name: featureLabels[f.feature] ?? f.feature,
+      importance: Math.round(f.importance * 1000) / 10
+    }));
+
+  return (
+    <div style={{ height: Math.max(160, data.length * 40) }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} layout="vertical" margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#374151" horizontal={false} />
+          <XAxis type="number" unit="%" stroke="#9ca3af" />
+          <YAxis type="category" dataKey="name" width={130} stroke="#9ca3af" tick={{ fontSize: 12 }} />
+          <Tooltip
+            contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151', borderRadius: '8px' }}
+            formatter={(value) => [`${value}%`, 'Importance']}
+          />
+          <Bar dataKey="importance" fill="#8b5cf6" radius={[0, 4, 4, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { useState, useMemo } from 'react';
+import { ComposedChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer } from 'recharts';
+import { PredictionInput } from '../../types';
+import { simulateLightCurve } from '../../utils/lightCurve';
+
+interface LightCurveChartProps {
+  input: PredictionInput;
+}
+
+const views = {
+  folded: { label: 'Folded transit', unit: 'hours from mid-transit' },
+  series: { label: 'Three orbits', unit: 'days' }
+};
+
+export function LightCurveChart({ input }: LightCurveChartProps) {
+  const [view, setView] = useState<keyof typeof views>('folded');
+  const curve = useMemo(() => simulateLightCurve(input), [input]);
+  const points = view === 'folded' ? curve.folded : curve.series;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-xs text-gray-500">
+          Noise {Math.round(curve.noisePpm)} ppm per point · impact parameter {curve.impactParameter.toFixed(2)}
+        </p>
+        <div className="flex gap-1 print:hidden">
+          {(Object.keys(views) as Array<keyof typeof views>).map((v) => (
+            <button
+              key={v}
+              type="button"
+              onClick={() => setView(v)}
+              className={`px-2 py-1 rounded text-xs transition-colors ${
+                view === v ? 'bg-cyan-500/20 text-cyan-300' : 'text-gray-400 hover:text-white'
+              }`}
+            >
+              {views[v].label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={points} margin={{ top: 10, right: 10, left: 10, bottom: 30 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+            <XAxis
+              type="number"
+              dataKey="time"
+              domain={['dataMin', 'dataMax']}
+              stroke="#9ca3af"
+              tickFormatter={(v: number) => v.toFixed(1)}
+              label={{ value: views[view].unit, position: 'bottom', offset: 10, fill: '#9ca3af' }}
+            />
+            <YAxis stroke="#9ca3af" unit=" ppm" width={80} tickFormatter={(v: number) => v.toFixed(0)} />
+            <Line
+              dataKey="flux"
+              stroke="none"
+              dot={{ r: 1.2, fill: '#06b6d4', fillOpacity: 0.5, strokeWidth: 0 }}
+              isAnimationActive={false}
+            />
+            <Line dataKey="model" stroke="#f59e0b" strokeWidth={2} dot={false} isAnimationActive={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
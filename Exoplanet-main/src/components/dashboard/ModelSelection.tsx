@@ -1,15 +1,31 @@
 import { ModelType, ModelInfo } from '../../types';
 import { Card } from '../ui/Card';
 import { motion } from 'framer-motion';
-import { CheckCircle2 } from 'lucide-react';
+import { MissionRecommendation, describeFit, summarizeFlags } from '../../utils/recommendation';
+import { CheckCircle2, Layers, Sparkles } from 'lucide-react';
 
 interface ModelSelectionProps {
   models: Record<string, ModelInfo>;
   selectedModel: ModelType;
   onSelectModel: (model: ModelType) => void;
+  ensembleMode: boolean;
+  onToggleEnsemble: () => void;
+  // How well the current input fits each mission; null until it has been worked out
+  recommendation?: MissionRecommendation | null;
+  autoSelect: boolean;
+  onToggleAutoSelect: () => void;
 }
 
-export function ModelSelection({ models, selectedModel, onSelectModel }: ModelSelectionProps) {
+export function ModelSelection({
+  models,
+  selectedModel,
+  onSelectModel,
+  ensembleMode,
+  onToggleEnsemble,
+  recommendation,
+  autoSelect,
+  onToggleAutoSelect
+}: ModelSelectionProps) {
   return (
     <Card className="p-6">
       <h2 className="text-2xl font-bold text-white mb-6 flex items-center">
@@ -18,56 +34,125 @@ export function ModelSelection({ models, selectedModel, onSelectModel }: ModelSe
       </h2>
 
       <div className="space-y-4">
-        {Object.values(models).map((model) => (
-          <motion.button
-            key={model.name}
-            onClick={() => onSelectModel(model.name)}
-            className={`w-full text-left p-4 rounded-lg border-2 transition-all ${
-              selectedModel === model.name
-                ? 'border-cyan-500 bg-cyan-500/10 shadow-lg shadow-cyan-500/30'
-                : 'border-gray-700 bg-gray-800/30 hover:border-gray-600'
-            }`}
-            whileHover={{ scale: 1.02 }}
-            whileTap={{ scale: 0.98 }}
-          >
-            <div className="flex items-start justify-between mb-2">
-              <div className="flex items-center space-x-3">
-                <span className="text-3xl">{model.logo}</span>
-                <div>
-                  <h3 className="text-xl font-bold text-white">{model.name}</h3>
-                  <p className="text-sm text-gray-400">{model.yearOfOperation}</p>
+        {Object.values(models).map((model) => {
+          const fit = recommendation?.fits.find((f) => f.mission === model.name);
+          const isRecommended = recommendation?.recommended === model.name;
+
+          return (
+            <motion.button
+              key={model.name}
+              onClick={() => onSelectModel(model.name)}
+              className={`w-full text-left p-4 rounded-lg border-2 transition-all ${
+                !ensembleMode && selectedModel === model.name
+                  ? 'border-cyan-500 bg-cyan-500/10 shadow-lg shadow-cyan-500/30'
+                  : 'border-gray-700 bg-gray-800/30 hover:border-gray-600'
+              }`}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              <div className="flex items-start justify-between mb-2">
+                <div className="flex items-center space-x-3">
+                  <span className="text-3xl">{model.logo}</span>
+                  <div>
+                    <h3 className="text-xl font-bold text-white">{model.name}</h3>
+                    <p className="text-sm text-gray-400">{model.yearOfOperation}</p>
+                  </div>
                 </div>
+                {!ensembleMode && selectedModel === model.name && (
+                  <motion.div
+                    initial={{ scale: 0 }}
+                    animate={{ scale: 1 }}
+                    transition={{ type: 'spring', stiffness: 500, damping: 30 }}
+                  >
+                    <CheckCircle2 className="w-6 h-6 text-cyan-400" />
+                  </motion.div>
+                )}
               </div>
-              {selectedModel === model.name && (
-                <motion.div
-                  initial={{ scale: 0 }}
-                  animate={{ scale: 1 }}
-                  transition={{ type: 'spring', stiffness: 500, damping: 30 }}
-                >
-                  <CheckCircle2 className="w-6 h-6 text-cyan-400" />
-                </motion.div>
-              )}
-            </div>
 
-            <p className="text-gray-300 text-sm mb-3">{model.description}</p>
+              <p className="text-gray-300 text-sm mb-3">{model.description}</p>
+
+              {fit && (
+                <div className="flex items-center justify-between mb-3 text-xs">
+                  <span className={isRecommended ? 'text-amber-300 flex items-center' : 'text-gray-500'}>
+                    {isRecommended && <Sparkles className="w-3.5 h-3.5 mr-1" />}
+                    {isRecommended ? 'Recommended' : describeFit(fit.score)} · {Math.round(fit.score * 100)}% match
+                  </span>
+                  {fit.flags.length > 0 && (
+                    <span className="text-orange-400/80 truncate ml-2" title={summarizeFlags(fit)}>
+                      {fit.flags.length} outside training
+                    </span>
+                  )}
+                </div>
+              )}
 
-            <div className="grid grid-cols-2 gap-3">
-              <div className="bg-gray-900/50 rounded p-2">
-                <p className="text-xs text-gray-400">Accuracy</p>
-                <p className="text-lg font-bold text-cyan-400">{model.accuracy}%</p>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="bg-gray-900/50 rounded p-2">
+                  <p className="text-xs text-gray-400">Accuracy</p>
+                  <p className="text-lg font-bold text-cyan-400">{model.accuracy}%</p>
+                </div>
+                <div className="bg-gray-900/50 rounded p-2">
+                  <p className="text-xs text-gray-400">F1-Score</p>
+                  <p className="text-lg font-bold text-cyan-400">{model.f1Score}</p>
+                </div>
               </div>
-              <div className="bg-gray-900/50 rounded p-2">
-                <p className="text-xs text-gray-400">F1-Score</p>
-                <p className="text-lg font-bold text-cyan-400">{model.f1Score}</p>
+            </motion.button>
+          );
+        })}
+
+        <motion.button
+          onClick={onToggleEnsemble}
+          className={`w-full text-left p-4 rounded-lg border-2 transition-all ${
+            ensembleMode
+              ? 'border-violet-500 bg-violet-500/10 shadow-lg shadow-violet-500/30'
+              : 'border-gray-700 border-dashed bg-gray-800/30 hover:border-gray-600'
+          }`}
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+        >
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <Layers className="w-7 h-7 text-violet-400" />
+              <div>
+                <h3 className="text-xl font-bold text-white">All Missions</h3>
+                <p className="text-sm text-gray-400">Run every model and compare verdicts</p>
               </div>
             </div>
-          </motion.button>
-        ))}
+            {ensembleMode && (
+              <motion.div
+                initial={{ scale: 0 }}
+                animate={{ scale: 1 }}
+                transition={{ type: 'spring', stiffness: 500, damping: 30 }}
+              >
+                <CheckCircle2 className="w-6 h-6 text-violet-400" />
+              </motion.div>
+            )}
+          </div>
+        </motion.button>
       </div>
 
+      {recommendation && (
+        <div className="mt-6 p-4 bg-amber-500/10 border border-amber-500/30 rounded-lg">
+          <p className="text-sm text-gray-300 mb-3">
+            <span className="font-semibold text-amber-300">Suggested: {recommendation.recommended}.</span>{' '}
+            {recommendation.reason}
+          </p>
+          {recommendation.approximate && (
+            <p className="text-xs text-gray-500 mb-3">
+              Based on approximate, hand-rounded training ranges bundled with this build; export the forests from the
+              backend for the exact ones.
+            </p>
+          )}
+          <label className="flex items-center space-x-2 text-sm text-gray-400 cursor-pointer">
+            <input type="checkbox" checked={autoSelect} onChange={onToggleAutoSelect} className="accent-cyan-500" />
+            <span>Select the suggested mission automatically</span>
+          </label>
+        </div>
+      )}
+
       <div className="mt-6 p-4 bg-blue-500/10 border border-blue-500/30 rounded-lg">
         <p className="text-sm text-gray-300">
-          <span className="font-semibold text-blue-400">Selected:</span> {selectedModel} Mission
+          <span className="font-semibold text-blue-400">Selected:</span>{' '}
+          {ensembleMode ? 'All missions (ensemble)' : `${selectedModel} Mission`}
         </p>
       </div>
     </Card>
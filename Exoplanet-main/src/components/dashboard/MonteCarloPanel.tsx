@@ -0,0 +1,229 @@
+import { useState, useRef, useEffect } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Card } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { InputUncertainties, ModelType, NumericInputField, PredictionInput, PredictionResult } from '../../types';
+import { inputFieldInfo } from '../../data/inputFields';
+import { classColors } from '../../data/models';
+import { Interval, MonteCarloSummary, Robustness, runMonteCarlo, summarizeMonteCarlo } from '../../utils/monteCarlo';
+import { CancelledError, describeError } from '../../services/errors';
+import { Dices, Loader2, ShieldCheck, ShieldAlert, ShieldQuestion } from 'lucide-react';
+
+interface MonteCarloPanelProps {
+  input: PredictionInput;
+  model: ModelType;
+  baseline: PredictionResult;
+  uncertainties: InputUncertainties;
+}
+
+const DRAW_OPTIONS = [50, 100, 200];
+const HISTOGRAM_BINS = 10;
+
+const statusLabels: Record<PredictionResult['status'], string> = {
+  candidate: 'Candidate',
+  false_positive: 'False Positive',
+  unknown: 'Uncertain'
+};
+
+const robustnessConfig: Record<Robustness, { label: string; icon: typeof ShieldCheck; className: string; text: string }> = {
+  robust: {
+    label: 'Robust',
+    icon: ShieldCheck,
+    className: 'bg-green-500/10 border-green-500/30 text-green-400',
+    text: 'No draw that keeps every input within its 1σ changes the verdict, and at least 95% of all draws agree with it.'
+  },
+  marginal: {
+    label: 'Marginal',
+    icon: ShieldQuestion,
+    className: 'bg-yellow-500/10 border-yellow-500/30 text-yellow-400',
+    text: 'The verdict holds while every input stays within its 1σ, but changes for more than 5% of the draws further out.'
+  },
+  fragile: {
+    label: 'Flips within 1σ',
+    icon: ShieldAlert,
+    className: 'bg-red-500/10 border-red-500/30 text-red-400',
+    text: "Inputs within the stated 1σ uncertainties give a different verdict, so the measurements don't settle it."
+  }
+};
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function formatInterval(i: Interval): string {
+  return `${percent(i.median)} (68%: ${percent(i.low68)}–${percent(i.high68)}, 95%: ${percent(i.low95)}–${percent(i.high95)})`;
+}
+
+export function MonteCarloPanel({ input, model, baseline, uncertainties }: MonteCarloPanelProps) {
+  const [draws, setDraws] = useState(DRAW_OPTIONS[1]);
+  const [summary, setSummary] = useState<MonteCarloSummary | null>(null);
+  const [confidences, setConfidences] = useState<number[]>([]);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const fields = (Object.keys(uncertainties) as NumericInputField[]).filter((f) => (uncertainties[f] ?? 0) > 0);
+  const isRunning = progress !== null;
+
+  const handleRun = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(0);
+    setError(null);
+    setSummary(null);
+
+    try {
+      const results = await runMonteCarlo(
+        input,
+        uncertainties,
+        model,
+        baseline.source,
+        draws,
+        controller.signal,
+        setProgress
+      );
+      setSummary(summarizeMonteCarlo(results, baseline.status));
+      setConfidences(results.map((r) => r.confidence));
+    } catch (err) {
+      if (err instanceof CancelledError || controller.signal.aborted) return;
+      console.error('Monte Carlo run failed:', err);
+      setError(describeError(err).message);
+    }
+    setProgress(null);
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setProgress(null);
+  };
+
+  const histogram = Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({
+    range: `${i * 10}–${(i + 1) * 10}%`,
+    count: confidences.filter((c) => Math.min(Math.floor(c * HISTOGRAM_BINS), HISTOGRAM_BINS - 1) === i).length
+  }));
+  const robustness = summary ? robustnessConfig[summary.robustness] : null;
+
+  return (
+    <Card className="p-8">
+      <h3 className="text-2xl font-bold text-white mb-2 flex items-center">
+        <Dices className="w-6 h-6 mr-3 text-cyan-400" />
+        Uncertainty (Monte Carlo)
+      </h3>
+      <p className="text-gray-400 text-sm mb-6">
+        Re-runs the model on inputs drawn from Gaussians with the ± 1σ uncertainties you entered, to show how much of the
+        confidence is the measurement and how much is the model.
+      </p>
+
+      {fields.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Tick "Enter ± 1σ uncertainties" above, fill in the uncertainties you know and predict again to run this check.
+        </p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-400 mb-4">
+            Perturbing {fields.map((f) => inputFieldInfo[f].label).join(', ')}.
+          </p>
+
+          <div className="flex flex-wrap items-center gap-3 mb-6">
+            <select
+              value={draws}
+              onChange={(e) => setDraws(Number(e.target.value))}
+              disabled={isRunning}
+              className="px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+            >
+              {DRAW_OPTIONS.map((n) => (
+                <option key={n} value={n}>
+                  {n} draws
+                </option>
+              ))}
+            </select>
+            <Button size="sm" onClick={handleRun} disabled={isRunning}>
+              {isRunning ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Dices className="w-4 h-4 mr-2" />}
+              {isRunning ? `Running ${progress}/${draws}...` : 'Run Monte Carlo'}
+            </Button>
+            {isRunning && (
+              <Button size="sm" variant="outline" onClick={handleCancel}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </>
+      )}
+
+      {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+      {summary && robustness && (
+        <div className="space-y-6">
+          <div className={`p-4 rounded-lg border flex items-start space-x-3 ${robustness.className}`}>
+            <robustness.icon className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            <div>
+              <p className="font-semibold">
+                {robustness.label}: {percent(summary.agreement)} of {summary.draws} draws are{' '}
+                {statusLabels[baseline.status]}
+              </p>
+              <p className="text-sm text-gray-300 mt-1">{robustness.text}</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {(Object.keys(statusLabels) as PredictionResult['status'][]).map((status) => (
+              <div key={status} className="p-3 bg-gray-900/50 rounded-lg border border-gray-700">
+                <p className="text-xs text-gray-500 mb-1">{statusLabels[status]}</p>
+                <div className="flex items-center space-x-2">
+                  <div className="flex-1 h-2 bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                      className="h-full rounded-full"
+                      style={{ width: percent(summary.statusFractions[status]), backgroundColor: classColors[status] }}
+                    />
+                  </div>
+                  <span className="text-sm font-semibold text-white">{percent(summary.statusFractions[status])}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="text-sm space-y-1">
+            <p className="text-gray-300">
+              <span className="text-gray-500">Confidence:</span> {formatInterval(summary.confidence)}
+            </p>
+            {summary.candidateProbability && (
+              <p className="text-gray-300">
+                <span className="text-gray-500">P(candidate):</span> {formatInterval(summary.candidateProbability)}
+              </p>
+            )}
+            {baseline.source === 'offline_heuristic' && (
+              <p className="text-yellow-400">
+                Heuristic scores add their own random noise, which widens these ranges beyond the input uncertainty.
+              </p>
+            )}
+          </div>
+
+          <div className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={histogram} margin={{ top: 10, right: 10, left: 0, bottom: 30 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                <XAxis
+                  dataKey="range"
+                  stroke="#9ca3af"
+                  tick={{ fontSize: 11 }}
+                  label={{ value: 'Confidence', position: 'bottom', offset: 10, fill: '#9ca3af' }}
+                />
+                <YAxis stroke="#9ca3af" allowDecimals={false} />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151', borderRadius: '8px' }}
+                  labelStyle={{ color: '#fff' }}
+                  formatter={(value) => [value, 'Draws']}
+                />
+                <Bar dataKey="count" fill="#8b5cf6" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
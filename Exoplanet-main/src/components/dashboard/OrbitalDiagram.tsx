@@ -0,0 +1,197 @@
+import { useEffect, useRef } from 'react';
+import { PredictionInput } from '../../types';
+import { AU, EARTH_RADIUS, SOLAR_RADIUS, SOLAR_TEMPERATURE, semiMajorAxis } from '../../utils/astrophysics';
+import { Card } from '../ui/Card';
+import { Orbit } from 'lucide-react';
+
+interface OrbitalDiagramProps {
+  input: PredictionInput;
+}
+
+// One orbit takes this long on screen, whatever the period
+const ORBIT_SECONDS = 8;
+// The crossing of the sky view's window is slowed to take at least this long
+const TRANSIT_SECONDS = 2.5;
+// Half-width of the sky view's window, in stellar radii
+const SKY_HALF_WIDTH = 1.3;
+const HEIGHT = 280;
+// Smallest drawn radius, so tiny bodies stay visible
+const MIN_BODY_PX = 1.5;
+
+/**
+ * Approximate colour of a blackbody at the given temperature (Tanner
+ * Helland's fit to the CIE colour-matching functions), as an rgb() string.
+ */
+function blackbodyColor(kelvin: number): string {
+  const t = Math.min(Math.max(kelvin, 1000), 40000) / 100;
+  const clamp = (v: number) => Math.round(Math.min(Math.max(v, 0), 255));
+  const red = t <= 66 ? 255 : 329.698727446 * (t - 60) ** -0.1332047592;
+  const green = t <= 66 ? 99.4708025861 * Math.log(t) - 161.1195681661 : 288.1221695283 * (t - 60) ** -0.0755148492;
+  const blue = t >= 66 ? 255 : t <= 19 ? 0 : 138.5177312231 * Math.log(t - 10) - 305.0447927307;
+  return `rgb(${clamp(red)}, ${clamp(green)}, ${clamp(blue)})`;
+}
+
+function positive(value: number | undefined, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Animated diagram of the system the inputs imply. Left: the orbit seen from
+ * above, star and orbit to scale. Right: the stellar disk as the telescope
+ * sees it, with the planet to scale crossing it along the transit chord set
+ * by the impact parameter. The observer is below the top-down view.
+ */
+export function OrbitalDiagram({ input }: OrbitalDiagramProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const starRadius = positive(input.starRadius, 1);
+  const starMass = positive(input.starMass, 1);
+  const starTemperature = positive(input.starTemperature, SOLAR_TEMPERATURE);
+  const a = semiMajorAxis(input.orbitalPeriod, starMass);
+  // Orbit and planet size in stellar radii
+  const orbitRadius = a / (starRadius * SOLAR_RADIUS);
+  const planetRadius = (input.planetRadius * EARTH_RADIUS) / (starRadius * SOLAR_RADIUS);
+  const impact = Math.max(input.impactParameter ?? 0, 0);
+  const valid = Number.isFinite(orbitRadius) && orbitRadius > 1 && Number.isFinite(planetRadius) && planetRadius > 0;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !valid) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const starColor = blackbodyColor(starTemperature);
+    const reducedMotion = window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+    let frame = 0;
+
+    const resize = () => {
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = canvas.clientWidth * ratio;
+      canvas.height = HEIGHT * ratio;
+      ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    };
+
+    const draw = (angle: number) => {
+      const width = canvas.clientWidth;
+      const half = width / 2;
+      ctx.clearRect(0, 0, width, HEIGHT);
+
+      // Top-down view: observer at the bottom, so the planet transits at angle π/2
+      const topX = half / 2;
+      const topY = HEIGHT / 2;
+      const orbitPx = Math.min(half, HEIGHT) / 2 - 16;
+      const topScale = orbitPx / orbitRadius;
+      ctx.strokeStyle = 'rgba(148, 163, 184, 0.35)';
+      ctx.setLineDash([4, 4]);
+      ctx.beginPath();
+      ctx.arc(topX, topY, orbitPx, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.setLineDash([]);
+      ctx.fillStyle = starColor;
+      ctx.beginPath();
+      ctx.arc(topX, topY, Math.max(topScale, MIN_BODY_PX), 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = '#38bdf8';
+      ctx.beginPath();
+      ctx.arc(
+        topX + orbitPx * Math.cos(angle),
+        topY + orbitPx * Math.sin(angle),
+        Math.max(planetRadius * topScale, MIN_BODY_PX),
+        0,
+        Math.PI * 2
+      );
+      ctx.fill();
+
+      // Sky view: the stellar disk, with the chord the planet crosses at impact parameter b
+      const skyX = half + half / 2;
+      const skyY = HEIGHT / 2;
+      const starPx = Math.min(half, HEIGHT) / 2 - 24;
+      const glow = ctx.createRadialGradient(skyX, skyY, 0, skyX, skyY, starPx);
+      glow.addColorStop(0, starColor);
+      // Limb darkening: the edge of the disk is dimmer
+      glow.addColorStop(1, 'rgba(120, 60, 20, 0.9)');
+      ctx.fillStyle = glow;
+      ctx.beginPath();
+      ctx.arc(skyX, skyY, starPx, 0, Math.PI * 2);
+      ctx.fill();
+
+      const chordY = skyY + impact * starPx;
+      ctx.strokeStyle = 'rgba(56, 189, 248, 0.5)';
+      ctx.setLineDash([6, 4]);
+      ctx.beginPath();
+      ctx.moveTo(skyX - starPx * SKY_HALF_WIDTH, chordY);
+      ctx.lineTo(skyX + starPx * SKY_HALF_WIDTH, chordY);
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      // Seen from below, the planet's sky position is its x offset; it is in front when sin(angle) > 0
+      const skyOffset = orbitRadius * Math.cos(angle);
+      if (Math.sin(angle) > 0 && Math.abs(skyOffset) < SKY_HALF_WIDTH + planetRadius) {
+        ctx.fillStyle = '#0b1120';
+        ctx.beginPath();
+        ctx.arc(skyX + skyOffset * starPx, chordY, Math.max(planetRadius * starPx, MIN_BODY_PX), 0, Math.PI * 2);
+        ctx.fill();
+      }
+
+      ctx.fillStyle = '#9ca3af';
+      ctx.font = '12px sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText('From above', topX, HEIGHT - 6);
+      ctx.fillText('As seen from Earth', skyX, HEIGHT - 6);
+    };
+
+    // Wide orbits cross the sky window in a sliver of the orbit, too fast to see at constant speed
+    const orbitSpeed = (Math.PI * 2) / ORBIT_SECONDS;
+    const windowAngle = 2 * Math.asin(Math.min((SKY_HALF_WIDTH + planetRadius) / orbitRadius, 1));
+    const transitSpeed = Math.min(orbitSpeed, windowAngle / TRANSIT_SECONDS);
+    const inWindow = (angle: number) =>
+      Math.sin(angle) > 0 && Math.abs(orbitRadius * Math.cos(angle)) < SKY_HALF_WIDTH + planetRadius;
+
+    // Start just before a transit (angle π/2)
+    let angle = Math.PI / 2 - windowAngle;
+    let last = performance.now();
+    const animate = (now: number) => {
+      const seconds = Math.min((now - last) / 1000, 0.1);
+      last = now;
+      angle = (angle + seconds * (inWindow(angle) ? transitSpeed : orbitSpeed)) % (Math.PI * 2);
+      draw(angle);
+      frame = requestAnimationFrame(animate);
+    };
+
+    resize();
+    if (reducedMotion) draw(Math.PI / 2);
+    else frame = requestAnimationFrame(animate);
+
+    const handleResize = () => {
+      resize();
+      if (reducedMotion) draw(Math.PI / 2);
+    };
+    window.addEventListener('resize', handleResize);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('resize', handleResize);
+    };
+  }, [valid, orbitRadius, planetRadius, impact, starTemperature]);
+
+  return (
+    <Card className="p-8">
+      <h3 className="text-2xl font-bold text-white mb-2 flex items-center">
+        <Orbit className="w-6 h-6 mr-3 text-cyan-400" />
+        Orbital System
+      </h3>
+      <p className="text-gray-400 text-sm mb-6">
+        {valid
+          ? `A ${Number((a / AU).toPrecision(3))} AU orbit around a ${Math.round(starTemperature)} K star, one ${Number(
+              input.orbitalPeriod.toPrecision(4)
+            )}-day orbit every ${ORBIT_SECONDS} seconds, slowed down during the transit. Sizes and distances are to scale; bodies smaller than a pixel are drawn at the minimum visible size.`
+          : 'This period puts the orbit inside the star, so there is nothing to draw.'}
+      </p>
+      {valid && <canvas ref={canvasRef} className="w-full" style={{ height: HEIGHT }} />}
+      {valid && (input.starRadius === undefined || input.starMass === undefined || input.starTemperature === undefined) && (
+        <p className="text-xs text-gray-500 mt-3">Solar values stand in for any stellar radius, mass or temperature that wasn't entered.</p>
+      )}
+    </Card>
+  );
+}
@@ -1,13 +1,38 @@
-import { useState } from 'react';
-import { PredictionInput } from '../../types';
+import { useState, useEffect, useMemo } from 'react';
+import {
+  AdvancedField,
+  ConsistencyWarning,
+  InputUncertainties,
+  ModelType,
+  NumericInputField,
+  PredictionInput,
+  UnitPreferences
+} from '../../types';
+import { models } from '../../data/models';
+import { loadAdvancedFields } from '../../utils/modelFeatures';
+import { checkConsistency, describeExpected } from '../../utils/consistency';
+import { getSettings } from '../../utils/settings';
+import { unitsUsed } from '../../utils/units';
+import { toPredictionInput } from '../../services/contract';
 import { Card } from '../ui/Card';
 import { Button } from '../ui/Button';
-import { Input } from '../ui/Input';
 import { Slider } from '../ui/Slider';
-import { Info } from 'lucide-react';
+import { AdvancedParameters } from './AdvancedParameters';
+import { PresetManager } from './PresetManager';
+import { TargetLookup } from './TargetLookup';
+import { UnitInput } from './UnitInput';
+import { Info, ChevronDown, Loader2, AlertTriangle } from 'lucide-react';
 
 interface ParameterInputProps {
-  onPredict: (input: PredictionInput) => void;
+  // Mission whose model will run; null when all missions run at once
+  model: ModelType | null;
+  // Starting values instead of the defaults, e.g. from a shared link
+  initialInput?: PredictionInput;
+  // `units` records the unit each value was entered in; `input` and `uncertainties` are canonical
+  onPredict: (input: PredictionInput, units: UnitPreferences, uncertainties: InputUncertainties) => void;
+  // Called with the input as it is edited, before it is submitted
+  onInputChange?: (input: PredictionInput, units: UnitPreferences) => void;
+  onCancel: () => void;
   isProcessing: boolean;
 }
 
@@ -26,23 +51,109 @@ function Tooltip({ text }: TooltipProps) {
   );
 }
 
-export function ParameterInput({ onPredict, isProcessing }: ParameterInputProps) {
-  const [params, setParams] = useState<PredictionInput>({
-    signalToNoise: 45,
-    transitDepth: 1200,
-    orbitalPeriod: 15,
-    transitDuration: 3.5,
-    planetRadius: 2.5,
-    planetTemperature: 850
-  });
-
-  const updateParam = (key: keyof PredictionInput, value: number | boolean) => {
+interface FieldWarningsProps {
+  warnings: ConsistencyWarning[];
+  field: keyof PredictionInput;
+}
+
+function FieldWarnings({ warnings, field }: FieldWarningsProps) {
+  return (
+    <>
+      {warnings
+        .filter((w) => w.field === field)
+        .map((w) => (
+          <p key={w.message} className="mt-2 flex items-start text-xs text-yellow-400">
+            <AlertTriangle className="w-3.5 h-3.5 mr-1.5 mt-0.5 flex-shrink-0" />
+            <span>
+              {w.message} <span className="text-yellow-500/80">({describeExpected(w)})</span>
+            </span>
+          </p>
+        ))}
+    </>
+  );
+}
+
+const coreDefaults: PredictionInput = {
+  signalToNoise: 45,
+  transitDepth: 1200,
+  orbitalPeriod: 15,
+  transitDuration: 3.5,
+  planetRadius: 2.5,
+  planetTemperature: 850
+};
+
+export function ParameterInput({
+  model,
+  initialInput,
+  onPredict,
+  onInputChange,
+  onCancel,
+  isProcessing
+}: ParameterInputProps) {
+  const [params, setParams] = useState<PredictionInput>(initialInput ?? coreDefaults);
+  // Only changes how values are shown and typed; params stay canonical
+  const [units, setUnits] = useState<UnitPreferences>(() => getSettings().preferredUnits);
+  const [showUncertainties, setShowUncertainties] = useState(false);
+  const [uncertainties, setUncertainties] = useState<InputUncertainties>({});
+
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  // Optional inputs the selected model(s) take; null when the feature list couldn't be loaded
+  const [advancedFields, setAdvancedFields] = useState<AdvancedField[] | null>([]);
+  const [loadingFields, setLoadingFields] = useState(true);
+
+  useEffect(() => {
+    let active = true;
+    const missions = model ? [model] : (Object.keys(models) as ModelType[]);
+    setLoadingFields(true);
+
+    Promise.all(missions.map(loadAdvancedFields)).then((lists) => {
+      if (!active) return;
+      const known = lists.filter((l): l is AdvancedField[] => l !== null);
+      setAdvancedFields(known.length ? [...new Set(known.flat())] : null);
+      setLoadingFields(false);
+    });
+
+    return () => {
+      active = false;
+    };
+  }, [model]);
+
+  const updateParam = (key: keyof PredictionInput, value: number | boolean | undefined) => {
     setParams((prev) => ({ ...prev, [key]: value }));
   };
 
+  const setUnit = (field: NumericInputField, unitId: string) => {
+    setUnits((prev) => ({ ...prev, [field]: unitId }));
+  };
+
+  const setUncertainty = (field: NumericInputField, uncertainty: number | undefined) => {
+    setUncertainties((prev) => ({ ...prev, [field]: uncertainty }));
+  };
+  const uncertaintyHandler = showUncertainties ? setUncertainty : undefined;
+
+  // Values entered for another mission's inputs stay in the form but aren't sent;
+  // null while a core parameter is cleared
+  const input = useMemo(() => {
+    const sent = new Set<string>([...Object.keys(coreDefaults), ...(advancedFields ?? [])]);
+    return toPredictionInput(Object.fromEntries(Object.entries(params).filter(([key]) => sent.has(key))));
+  }, [params, advancedFields]);
+
+  const warnings = useMemo(() => (input ? checkConsistency(input) : []), [input]);
+
+  useEffect(() => {
+    if (input) onInputChange?.(input, units);
+  }, [input, units, onInputChange]);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onPredict(params);
+    if (!input) return;
+    // Only for fields that are sent, and only while the ± boxes are shown
+    const sent = showUncertainties
+      ? (Object.fromEntries(
+          Object.entries(uncertainties).filter(([key, sigma]) => sigma !== undefined && sigma > 0 && key in input)
+        ) as InputUncertainties)
+      : {};
+    onPredict(input, unitsUsed(input, units), sent);
   };
 
   return (
@@ -52,7 +163,21 @@ export function ParameterInput({ onPredict, isProcessing }: ParameterInputProps)
         Input Parameters
       </h2>
 
+      <TargetLookup onSelect={(entry) => setParams({ ...entry.input })} />
+
+      <PresetManager current={input} onLoad={setParams} />
+
       <form onSubmit={handleSubmit} className="space-y-6">
+        <label className="flex items-center space-x-2 text-sm text-gray-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={showUncertainties}
+            onChange={(e) => setShowUncertainties(e.target.checked)}
+            className="accent-cyan-500"
+          />
+          <span>Enter ± 1σ uncertainties (used by the Monte Carlo check after a prediction)</span>
+        </label>
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div>
             <div className="flex items-center mb-2">
@@ -66,13 +191,16 @@ export function ParameterInput({ onPredict, isProcessing }: ParameterInputProps)
               value={params.signalToNoise}
               onChange={(e) => updateParam('signalToNoise', parseFloat(e.target.value))}
             />
-            <Input
-              type="number"
+            <UnitInput
+              field="signalToNoise"
               min={0}
               max={10000}
-              step="any"
               value={params.signalToNoise}
-              onChange={(e) => updateParam('signalToNoise', parseFloat(e.target.value))}
+              units={units}
+              onChange={(v) => updateParam('signalToNoise', v)}
+              onUnitChange={setUnit}
+              uncertainty={uncertainties.signalToNoise}
+              onUncertaintyChange={uncertaintyHandler}
               className="mt-2"
             />
           </div>
@@ -90,16 +218,19 @@ export function ParameterInput({ onPredict, isProcessing }: ParameterInputProps)
               onChange={(e) => updateParam('transitDepth', parseFloat(e.target.value))}
               suffix="ppm"
             />
-            <Input
-              type="number"
+            <UnitInput
+              field="transitDepth"
               min={0}
               max={1600000}
-              step="any"
               value={params.transitDepth}
-              onChange={(e) => updateParam('transitDepth', parseFloat(e.target.value))}
-              suffix="ppm"
+              units={units}
+              onChange={(v) => updateParam('transitDepth', v)}
+              onUnitChange={setUnit}
+              uncertainty={uncertainties.transitDepth}
+              onUncertaintyChange={uncertaintyHandler}
               className="mt-2"
             />
+            <FieldWarnings warnings={warnings} field="transitDepth" />
           </div>
 
           <div>
@@ -115,16 +246,19 @@ export function ParameterInput({ onPredict, isProcessing }: ParameterInputProps)
               onChange={(e) => updateParam('orbitalPeriod', parseFloat(e.target.value))}
               suffix="days"
             />
-            <Input
-              type="number"
+            <UnitInput
+              field="orbitalPeriod"
               min={0.5}
               max={130000}
-              step="any"
               value={params.orbitalPeriod}
-              onChange={(e) => updateParam('orbitalPeriod', parseFloat(e.target.value))}
-              suffix="days"
+              units={units}
+              onChange={(v) => updateParam('orbitalPeriod', v)}
+              onUnitChange={setUnit}
+              uncertainty={uncertainties.orbitalPeriod}
+              onUncertaintyChange={uncertaintyHandler}
               className="mt-2"
             />
+            <FieldWarnings warnings={warnings} field="orbitalPeriod" />
           </div>
 
           <div>
@@ -140,16 +274,19 @@ export function ParameterInput({ onPredict, isProcessing }: ParameterInputProps)
               onChange={(e) => updateParam('transitDuration', parseFloat(e.target.value))}
               suffix="hours"
             />
-            <Input
-              type="number"
+            <UnitInput
+              field="transitDuration"
               min={0.1}
               max={150}
-              step="any"
               value={params.transitDuration}
-              onChange={(e) => updateParam('transitDuration', parseFloat(e.target.value))}
-              suffix="hours"
+              units={units}
+              onChange={(v) => updateParam('transitDuration', v)}
+              onUnitChange={setUnit}
+              uncertainty={uncertainties.transitDuration}
+              onUncertaintyChange={uncertaintyHandler}
               className="mt-2"
             />
+            <FieldWarnings warnings={warnings} field="transitDuration" />
           </div>
 
           <div>
@@ -165,14 +302,16 @@ export function ParameterInput({ onPredict, isProcessing }: ParameterInputProps)
               onChange={(e) => updateParam('planetRadius', parseFloat(e.target.value))}
               suffix="R⊕"
             />
-            <Input
-              type="number"
+            <UnitInput
+              field="planetRadius"
               min={0.1}
               max={210000}
-              step="any"
               value={params.planetRadius}
-              onChange={(e) => updateParam('planetRadius', parseFloat(e.target.value))}
-              suffix="R⊕"
+              units={units}
+              onChange={(v) => updateParam('planetRadius', v)}
+              onUnitChange={setUnit}
+              uncertainty={uncertainties.planetRadius}
+              onUncertaintyChange={uncertaintyHandler}
               className="mt-2"
             />
           </div>
@@ -190,34 +329,113 @@ export function ParameterInput({ onPredict, isProcessing }: ParameterInputProps)
               onChange={(e) => updateParam('planetTemperature', parseFloat(e.target.value))}
               suffix="K"
             />
-            <Input
-              type="number"
+            <UnitInput
+              field="planetTemperature"
               min={100}
               max={15000}
-              step="any"
               value={params.planetTemperature}
-              onChange={(e) => updateParam('planetTemperature', parseFloat(e.target.value))}
-              suffix="K"
+              units={units}
+              onChange={(v) => updateParam('planetTemperature', v)}
+              onUnitChange={setUnit}
+              uncertainty={uncertainties.planetTemperature}
+              onUncertaintyChange={uncertaintyHandler}
               className="mt-2"
             />
+            <FieldWarnings warnings={warnings} field="planetTemperature" />
           </div>
         </div>
 
-        {/* Detection flags removed per requirements */}
+        <div className="border-t border-gray-700 pt-4">
+          <button
+            type="button"
+            onClick={() => setShowAdvanced((prev) => !prev)}
+            className="w-full flex items-center justify-between text-left text-gray-300 hover:text-white transition-colors"
+          >
+            <span className="font-medium">
+              Advanced
+              {!loadingFields && advancedFields && (
+                <span className="ml-2 text-sm text-gray-500">
+                  {advancedFields.length} optional {advancedFields.length === 1 ? 'input' : 'inputs'}
+                  {model ? ` for ${model}` : ' across all missions'}
+                </span>
+              )}
+            </span>
+            <ChevronDown className={`w-5 h-5 transition-transform ${showAdvanced ? 'rotate-180' : ''}`} />
+          </button>
+
+          {showAdvanced && (
+            <div className="mt-4">
+              {loadingFields ? (
+                <p className="flex items-center text-sm text-gray-400">
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Loading model features...
+                </p>
+              ) : advancedFields === null ? (
+                <p className="text-sm text-gray-400">
+                  The model's feature list couldn't be loaded, so only the core parameters above are sent.
+                </p>
+              ) : advancedFields.length === 0 ? (
+                <p className="text-sm text-gray-400">
+                  {model ? `The ${model} model` : 'None of the mission models'} only uses the core parameters above.
+                </p>
+              ) : (
+                <AdvancedParameters
+                  fields={advancedFields}
+                  values={params}
+                  units={units}
+                  onChange={updateParam}
+                  onUnitChange={setUnit}
+                  uncertainties={uncertainties}
+                  onUncertaintyChange={uncertaintyHandler}
+                />
+              )}
+            </div>
+          )}
+        </div>
 
-        <Button type="submit" size="lg" className="w-full" disabled={isProcessing}>
-          {isProcessing ? (
-            <span className="flex items-center justify-center">
-              <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-              </svg>
-              Analyzing Signal...
+        {warnings.length > 0 && (
+          <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-sm text-yellow-300 flex items-start">
+            <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+            <span>
+              {warnings.length} {warnings.length === 1 ? 'parameter doesn\'t' : 'parameters don\'t'} fit a physical
+              transit. The prediction will still run, but a model scores what it's given, so treat its confidence with
+              care. The warnings are saved with the result.
             </span>
-          ) : (
-            '🚀 Predict Candidate'
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <Button
+            type="submit"
+            size="lg"
+            className="w-full"
+            disabled={!input}
+            title={
+              !input
+                ? 'Fill in all six core parameters'
+                : isProcessing
+                  ? 'Submitting again cancels the running prediction'
+                  : undefined
+            }
+          >
+            {isProcessing ? (
+              <span className="flex items-center justify-center">
+                <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                </svg>
+                Analyzing Signal...
+              </span>
+            ) : (
+              '🚀 Predict Candidate'
+            )}
+          </Button>
+          {isProcessing && (
+            <Button type="button" variant="outline" size="lg" onClick={onCancel}>
+              Cancel
+            </Button>
           )}
-        </Button>
+        </div>
       </form>
     </Card>
   );
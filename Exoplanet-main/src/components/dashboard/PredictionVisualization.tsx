@@ -1,19 +1,63 @@
+import { useState, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Card } from '../ui/Card';
-import { PredictionResult } from '../../types';
-import { CheckCircle2, XCircle, AlertCircle } from 'lucide-react';
+import { ConsistencyWarning, ModelType, PredictionInput, PredictionResult } from '../../types';
+import { models } from '../../data/models';
+import { describeExpected } from '../../utils/consistency';
+import { MissionEnvelope, checkEnvelope, describeFlag, loadEnvelope } from '../../utils/envelope';
+import { getSettings } from '../../utils/settings';
+import { SourceBadge } from './SourceBadge';
+import { ProbabilityBars } from './ProbabilityBars';
+import { FeatureImportanceChart } from './FeatureImportanceChart';
+import { CopyLinkButton } from './CopyLinkButton';
+import { LightCurveChart } from './LightCurveChart';
+import { ContributionWaterfall } from './ContributionWaterfall';
+import { CheckCircle2, XCircle, AlertCircle, AlertTriangle } from 'lucide-react';
 
 interface PredictionVisualizationProps {
   prediction: PredictionResult | null;
   isProcessing: boolean;
   modelName: string;
+  // What was predicted on; checked against the mission's training ranges when given
+  input?: PredictionInput;
+  warnings?: ConsistencyWarning[];
+  // Link that reproduces this prediction; shows a copy button when set
+  shareUrl?: string;
+  // A result from history rather than a fresh run; the backend isn't probed to explain it
+  stored?: boolean;
 }
 
 export function PredictionVisualization({
   prediction,
   isProcessing,
-  modelName
+  modelName,
+  input,
+  warnings = [],
+  shareUrl,
+  stored = false
 }: PredictionVisualizationProps) {
+  const [envelope, setEnvelope] = useState<MissionEnvelope | null>(null);
+  const [units] = useState(() => getSettings().preferredUnits);
+  const mission = modelName in models ? (modelName as ModelType) : null;
+
+  useEffect(() => {
+    setEnvelope(null);
+    if (!mission) return;
+    let active = true;
+    loadEnvelope(mission).then((loaded) => {
+      if (active) setEnvelope(loaded);
+    });
+    return () => {
+      active = false;
+    };
+  }, [mission]);
+
+  const outOfDistribution = useMemo(
+    () => (input && envelope ? checkEnvelope(input, envelope) : []),
+    [input, envelope]
+  );
+  const extrapolated = outOfDistribution.some((f) => f.severity === 'outside');
+
   if (isProcessing) {
     return (
       <Card className="p-8" gradient>
@@ -118,8 +162,69 @@ export function PredictionVisualization({
               <Icon className="w-8 h-8" />
               <span>{config.label}</span>
             </motion.h3>
+
+            <SourceBadge source={prediction.source} />
+
+            {shareUrl && (
+              <div className="mt-4">
+                <CopyLinkButton url={shareUrl} />
+              </div>
+            )}
           </div>
 
+          {(prediction.source === 'offline_heuristic' || prediction.source === 'server_heuristic') && (
+            <div className="mb-8 p-4 bg-amber-500/10 border border-amber-500/30 rounded-lg flex items-start space-x-3">
+              <AlertTriangle className="w-5 h-5 text-amber-400 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-amber-200">
+                {prediction.source === 'offline_heuristic'
+                  ? 'Neither the backend nor an in-browser model was available, so this verdict was produced by a hand-weighted heuristic. It is not a model output and should not be reported as one.'
+                  : 'The backend model was not available, so the server scored this input with a fixed heuristic. It is not a model output and should not be reported as one.'}
+              </p>
+            </div>
+          )}
+
+          {warnings.length > 0 && (
+            <div className="mb-8 p-4 bg-yellow-500/10 border border-yellow-500/30 rounded-lg flex items-start space-x-3">
+              <AlertTriangle className="w-5 h-5 text-yellow-400 flex-shrink-0 mt-0.5" />
+              <div className="text-sm text-yellow-200">
+                <p className="mb-2">
+                  The input isn't physically consistent, so this verdict describes an object that can't exist as entered:
+                </p>
+                <ul className="list-disc list-inside space-y-1 text-yellow-200/80">
+                  {warnings.map((w) => (
+                    <li key={w.message}>
+                      {w.message} ({describeExpected(w)})
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
+
+          {envelope && outOfDistribution.length > 0 && (
+            <div className="mb-8 p-4 bg-orange-500/10 border border-orange-500/30 rounded-lg flex items-start space-x-3">
+              <AlertTriangle className="w-5 h-5 text-orange-400 flex-shrink-0 mt-0.5" />
+              <div className="text-sm text-orange-200">
+                <p className="mb-2">
+                  {extrapolated
+                    ? `The input is outside the ${modelName} training data, so the model is extrapolating and its confidence doesn't mean much:`
+                    : `The input is at the edge of the ${modelName} training data, where the model saw few examples. Treat its confidence with care:`}
+                </p>
+                <ul className="list-disc list-inside space-y-1 text-orange-200/80">
+                  {outOfDistribution.map((flag) => (
+                    <li key={flag.field}>{describeFlag(flag, units)}</li>
+                  ))}
+                </ul>
+                {!envelope.exact && (
+                  <p className="mt-2 text-xs text-orange-200/60">
+                    Checked against approximate, hand-rounded training ranges bundled with this build. Export the
+                    forests from the backend to check against the exact training rows.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
             <motion.div
               initial={{ opacity: 0, x: -20 }}
@@ -129,7 +234,7 @@ export function PredictionVisualization({
             >
               <div className="text-center p-6 bg-gray-900/50 rounded-xl border border-gray-700">
                 <p className="text-gray-400 text-sm mb-2">Confidence Score</p>
-                <div className="relative inline-block">
+                <div className={`relative inline-block ${extrapolated ? 'opacity-40' : outOfDistribution.length ? 'opacity-60' : ''}`}>
                   <svg className="w-32 h-32 transform -rotate-90">
                     <circle
                       cx="64"
@@ -167,6 +272,11 @@ export function PredictionVisualization({
                     </motion.span>
                   </div>
                 </div>
+                {outOfDistribution.length > 0 && (
+                  <p className="mt-2 text-xs text-orange-400">
+                    {extrapolated ? 'Extrapolated beyond the training data' : 'Few similar training examples'}
+                  </p>
+                )}
               </div>
             </motion.div>
 
@@ -181,6 +291,64 @@ export function PredictionVisualization({
             </motion.div>
           </div>
 
+          {(prediction.probabilities || prediction.featureImportance) && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+              {prediction.probabilities && (
+                <motion.div
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.45 }}
+                  className="p-6 bg-gray-900/50 rounded-xl border border-gray-700"
+                >
+                  <h4 className="text-lg font-semibold text-white mb-4">Class Probabilities</h4>
+                  <ProbabilityBars probabilities={prediction.probabilities} />
+                </motion.div>
+              )}
+              {prediction.featureImportance && prediction.featureImportance.length > 0 && (
+                <motion.div
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.5 }}
+                  className="p-6 bg-gray-900/50 rounded-xl border border-gray-700"
+                >
+                  <h4 className="text-lg font-semibold text-white mb-1">Feature Importance</h4>
+                  <p className="text-xs text-gray-500 mb-3">How much each input drives the model overall</p>
+                  <FeatureImportanceChart importances={prediction.featureImportance} />
+                </motion.div>
+              )}
+            </div>
+          )}
+
+          {input && mission && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.52 }}
+              className="p-6 mb-8 bg-gray-900/50 rounded-xl border border-gray-700"
+            >
+              <h4 className="text-lg font-semibold text-white mb-1">Why This Verdict</h4>
+              <p className="text-xs text-gray-500 mb-3">
+                How each input pushed this prediction toward candidate (cyan) or false positive (red)
+              </p>
+              <ContributionWaterfall input={input} model={mission} prediction={prediction} allowProbe={!stored} />
+            </motion.div>
+          )}
+
+          {input && [input.transitDepth, input.transitDuration, input.orbitalPeriod].every(Number.isFinite) && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.55 }}
+              className="p-6 mb-8 bg-gray-900/50 rounded-xl border border-gray-700"
+            >
+              <h4 className="text-lg font-semibold text-white mb-1">Implied Light Curve</h4>
+              <p className="text-xs text-gray-500 mb-3">
+                A simulated signal with the entered depth, duration, period and signal-to-noise, on a limb-darkened Sun-like star
+              </p>
+              <LightCurveChart input={input} />
+            </motion.div>
+          )}
+
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -188,7 +356,11 @@ export function PredictionVisualization({
             className={`p-4 ${config.bgColor} border ${config.borderColor} rounded-lg`}
           >
             <p className="text-sm text-gray-300 text-center">
-              <span className="font-semibold">Model Used:</span> {modelName} Mission |{' '}
+              <span className="font-semibold">Model Used:</span>{' '}
+              {prediction.source === 'model' && `${modelName} Mission`}
+              {prediction.source === 'offline_model' && `${modelName} Mission (in-browser)`}
+              {(prediction.source === 'offline_heuristic' || prediction.source === 'server_heuristic') &&
+                `None (${modelName} selected)`} |{' '}
               <span className="font-semibold">Timestamp:</span> {new Date().toLocaleString()}
             </p>
           </motion.div>
@@ -0,0 +1,133 @@
+import { useState, useRef } from 'react';
+import { ParameterPreset, PredictionInput } from '../../types';
+import { referenceTargets } from '../../data/referenceTargets';
+import { classColors } from '../../data/models';
+import { getPresets, savePreset, renamePreset, deletePreset, exportPresets, importPresets } from '../../utils/presets';
+import { downloadFile } from '../../utils/csv';
+import { Button } from '../ui/Button';
+import { Save, Pencil, Trash2, Download, Upload } from 'lucide-react';
+
+interface PresetManagerProps {
+  // Null while the form is missing a core parameter
+  current: PredictionInput | null;
+  onLoad: (input: PredictionInput) => void;
+}
+
+export function PresetManager({ current, onLoad }: PresetManagerProps) {
+  const [presets, setPresets] = useState<ParameterPreset[]>(getPresets);
+  const [selectedId, setSelectedId] = useState('');
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const selectedPreset = presets.find((p) => p.id === selectedId);
+  const selectedTarget = referenceTargets.find((t) => t.id === selectedId);
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    setMessage(null);
+    const input = presets.find((p) => p.id === id)?.input ?? referenceTargets.find((t) => t.id === id)?.input;
+    if (input) onLoad({ ...input });
+  };
+
+  const handleSave = () => {
+    if (!current) return;
+    const name = window.prompt('Name for this preset:')?.trim();
+    if (!name) return;
+    const preset = savePreset(name, current);
+    setPresets(getPresets());
+    setSelectedId(preset.id);
+    setMessage({ text: `Saved "${name}".`, error: false });
+  };
+
+  const handleRename = () => {
+    if (!selectedPreset) return;
+    const name = window.prompt('New name:', selectedPreset.name)?.trim();
+    if (!name) return;
+    renamePreset(selectedPreset.id, name);
+    setPresets(getPresets());
+  };
+
+  const handleDelete = () => {
+    if (!selectedPreset || !window.confirm(`Delete the preset "${selectedPreset.name}"?`)) return;
+    deletePreset(selectedPreset.id);
+    setPresets(getPresets());
+    setSelectedId('');
+  };
+
+  const handleExport = () => {
+    downloadFile(exportPresets(), 'application/json', `astrokit-presets-${Date.now()}.json`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const count = importPresets(await file.text());
+      setPresets(getPresets());
+      setMessage({ text: `Imported ${count} ${count === 1 ? 'preset' : 'presets'}.`, error: false });
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : 'Import failed.', error: true });
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-gray-900/50 border border-gray-700 rounded-lg">
+      <div className="flex flex-col md:flex-row md:items-center gap-3">
+        <select
+          value={selectedId}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="flex-1 px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500"
+        >
+          <option value="">Load a preset or reference target…</option>
+          <optgroup label="Reference targets">
+            {referenceTargets.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.name}
+              </option>
+            ))}
+          </optgroup>
+          {presets.length > 0 && (
+            <optgroup label="Your presets">
+              {presets.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={handleSave} disabled={!current} title="Save the current parameters as a preset">
+            <Save className="w-4 h-4" />
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={handleRename} disabled={!selectedPreset} title="Rename preset">
+            <Pencil className="w-4 h-4" />
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={handleDelete} disabled={!selectedPreset} title="Delete preset">
+            <Trash2 className="w-4 h-4" />
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={handleExport} disabled={presets.length === 0} title="Export presets as JSON">
+            <Download className="w-4 h-4" />
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={() => fileRef.current?.click()} title="Import presets from JSON">
+            <Upload className="w-4 h-4" />
+          </Button>
+          <input ref={fileRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        </div>
+      </div>
+
+      {selectedTarget && (
+        <p className="mt-3 text-sm text-gray-400">
+          <span className="font-semibold" style={{ color: classColors[selectedTarget.disposition] }}>
+            {selectedTarget.disposition.replace('_', ' ').replace(/\b\w/g, (l) => l.toUpperCase())}
+          </span>{' '}
+          in the {selectedTarget.mission} catalogue{selectedTarget.note && ` — ${selectedTarget.note}`}.
+        </p>
+      )}
+
+      {message && <p className={`mt-3 text-sm ${message.error ? 'text-red-400' : 'text-green-400'}`}>{message.text}</p>}
+    </div>
+  );
+}
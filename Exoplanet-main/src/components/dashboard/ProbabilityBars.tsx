@@ -0,0 +1,34 @@
+import { motion } from 'framer-motion';
+import { classColors } from '../../data/models';
+
+interface ProbabilityBarsProps {
+  probabilities: Record<string, number>;
+}
+
+export function ProbabilityBars({ probabilities }: ProbabilityBarsProps) {
+  const entries = Object.entries(probabilities).sort((a, b) => b[1] - a[1]);
+
+  return (
+    <div className="space-y-3">
+      {entries.map(([name, p], idx) => (
+        <div key={name}>
+          <div className="flex justify-between text-sm mb-1">
+            <span className="text-gray-300">
+              {name.replace('_', ' ').replace(/\b\w/g, (l) => l.toUpperCase())}
+            </span>
+            <span className="font-mono text-gray-400">{(p * 100).toFixed(1)}%</span>
+          </div>
+          <div className="h-3 bg-gray-700 rounded-full overflow-hidden">
+            <motion.div
+              className="h-full rounded-full"
+              style={{ backgroundColor: classColors[name] ?? '#8b5cf6' }}
+              initial={{ width: 0 }}
+              animate={{ width: `${p * 100}%` }}
+              transition={{ duration: 0.8, delay: idx * 0.1, ease: 'easeOut' }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
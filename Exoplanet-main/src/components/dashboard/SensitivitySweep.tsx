@@ -0,0 +1,305 @@
+import { useState, useRef, useEffect } from 'react';
+import {
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import { Card } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { ModelType, NumericInputField, PredictionInput, PredictionResult } from '../../types';
+import { inputFieldInfo } from '../../data/inputFields';
+import { classColors } from '../../data/models';
+import { SweepPoint, findBoundaries, runSweep, sweepValues } from '../../utils/sweep';
+import { CancelledError, describeError } from '../../services/errors';
+import { Activity, Loader2 } from 'lucide-react';
+
+interface SensitivitySweepProps {
+  input: PredictionInput;
+  model: ModelType;
+  baseline: PredictionResult;
+}
+
+const DEFAULT_STEPS = 15;
+const MAX_STEPS = 40;
+
+const statusLabels: Record<PredictionResult['status'], string> = {
+  candidate: 'Candidate',
+  false_positive: 'False Positive',
+  unknown: 'Uncertain'
+};
+
+function formatValue(value: number): string {
+  return Math.abs(value) >= 1000 ? value.toFixed(0) : String(Number(value.toPrecision(3)));
+}
+
+function defaultRange(value: number): [number, number] {
+  return value > 0 ? [value * 0.25, value * 2] : [0, 1];
+}
+
+export function SensitivitySweep({ input, model, baseline }: SensitivitySweepProps) {
+  const fields = (Object.keys(inputFieldInfo) as NumericInputField[]).filter((f) => typeof input[f] === 'number');
+  const [field, setField] = useState<NumericInputField>('signalToNoise');
+  const [range, setRange] = useState(() => defaultRange(input.signalToNoise));
+  const [steps, setSteps] = useState(DEFAULT_STEPS);
+  const [points, setPoints] = useState<SweepPoint[] | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const baseValue = input[field] as number;
+  const info = inputFieldInfo[field];
+
+  const handleFieldChange = (next: NumericInputField) => {
+    setField(next);
+    setRange(defaultRange(input[next] as number));
+    setPoints(null);
+  };
+
+  const handleRun = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setError(null);
+    setPoints(null);
+
+    // Include the current value so the plot passes through the prediction being examined
+    const values = [...sweepValues(range[0], range[1], steps), baseValue]
+      .filter((v, i, all) => all.indexOf(v) === i)
+      .sort((a, b) => a - b);
+
+    try {
+      setPoints(await runSweep(input, model, field, values, controller.signal));
+    } catch (err) {
+      if (err instanceof CancelledError || controller.signal.aborted) return;
+      console.error('Sensitivity sweep failed:', err);
+      setError(describeError(err).message);
+    }
+    setIsRunning(false);
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsRunning(false);
+  };
+
+  // Points computed elsewhere than the baseline (a fallback mid-sweep) are left out of the plot and boundaries
+  const comparable = points?.filter((p) => p.source === baseline.source) ?? null;
+  const skipped = points && comparable ? points.length - comparable.length : 0;
+  const boundaries = points ? findBoundaries(points, baseline.source) : [];
+  const nearest = boundaries.reduce<(typeof boundaries)[number] | null>(
+    (best, b) => (best === null || Math.abs(b.at - baseValue) < Math.abs(best.at - baseValue) ? b : best),
+    null
+  );
+  // Moving from the current value towards the boundary lands on the class on its far side
+  const flipsTo = nearest ? (nearest.at < baseValue ? nearest.from : nearest.to) : null;
+  const hasProbabilities = comparable?.some((p) => p.candidateProbability !== undefined) ?? false;
+  const isHeuristic = baseline.source === 'offline_heuristic';
+  const unit = info.unit ? ` ${info.unit}` : '';
+
+  const chartData = comparable?.map((p) => ({
+    value: p.value,
+    status: p.status,
+    confidence: Math.round(p.confidence * 1000) / 10,
+    candidate: p.candidateProbability !== undefined ? Math.round(p.candidateProbability * 1000) / 10 : undefined
+  }));
+
+  return (
+    <Card className="p-8">
+      <h3 className="text-2xl font-bold text-white mb-2 flex items-center">
+        <Activity className="w-6 h-6 mr-3 text-cyan-400" />
+        Sensitivity Sweep
+      </h3>
+      <p className="text-gray-400 text-sm mb-6">
+        Vary one parameter while holding the others fixed to see how close this verdict is to changing.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Parameter</label>
+          <select
+            value={field}
+            onChange={(e) => handleFieldChange(e.target.value as NumericInputField)}
+            disabled={isRunning}
+            className="w-full px-4 py-2.5 bg-gray-900 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          >
+            {fields.map((f) => (
+              <option key={f} value={f}>
+                {inputFieldInfo[f].label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <Input
+          label="From"
+          type="number"
+          step="any"
+          value={range[0]}
+          suffix={info.unit}
+          disabled={isRunning}
+          onChange={(e) => setRange([parseFloat(e.target.value), range[1]])}
+        />
+        <Input
+          label="To"
+          type="number"
+          step="any"
+          value={range[1]}
+          suffix={info.unit}
+          disabled={isRunning}
+          onChange={(e) => setRange([range[0], parseFloat(e.target.value)])}
+        />
+        <Input
+          label="Steps"
+          type="number"
+          min={2}
+          max={MAX_STEPS}
+          value={steps}
+          disabled={isRunning}
+          onChange={(e) => setSteps(Math.min(MAX_STEPS, Math.max(2, parseInt(e.target.value) || 2)))}
+        />
+      </div>
+
+      <div className="flex items-center space-x-3 mb-6">
+        <Button
+          size="sm"
+          onClick={handleRun}
+          disabled={isRunning || !Number.isFinite(range[0]) || !Number.isFinite(range[1]) || range[0] >= range[1]}
+        >
+          {isRunning ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Activity className="w-4 h-4 mr-2" />}
+          {isRunning ? 'Sweeping...' : 'Run Sweep'}
+        </Button>
+        {isRunning && (
+          <Button size="sm" variant="outline" onClick={handleCancel}>
+            Cancel
+          </Button>
+        )}
+        <span className="text-sm text-gray-500">
+          Current value: {formatValue(baseValue)}
+          {unit}
+        </span>
+      </div>
+
+      {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+      {comparable && chartData && (comparable.length === 0 ? (
+        <p className="text-sm text-yellow-400">
+          None of the sweep runs came from the same source as this prediction, so there is nothing to compare. Check
+          the backend connection and run the sweep again.
+        </p>
+      ) : (
+        <>
+          <div className="p-4 bg-gray-900/50 rounded-lg border border-gray-700 mb-6 text-sm">
+            {nearest && flipsTo ? (
+              <p className="text-gray-300">
+                Nearest class change:{' '}
+                <span className="font-semibold" style={{ color: classColors[flipsTo] }}>
+                  {statusLabels[flipsTo]}
+                </span>{' '}
+                if {info.label.toLowerCase()} {nearest.at < baseValue ? 'drops' : 'rises'} to ≈{' '}
+                <span className="font-mono text-white">
+                  {formatValue(nearest.at)}
+                  {unit}
+                </span>
+                {baseValue !== 0 && (
+                  <span className="text-gray-500">
+                    {' '}
+                    ({nearest.at < baseValue ? '−' : '+'}
+                    {Math.round((Math.abs(nearest.at - baseValue) / Math.abs(baseValue)) * 100)}% from current)
+                  </span>
+                )}
+              </p>
+            ) : (
+              <p className="text-gray-300">
+                The verdict stays{' '}
+                <span className="font-semibold" style={{ color: classColors[comparable[0].status] }}>
+                  {statusLabels[comparable[0].status]}
+                </span>{' '}
+                across the whole range.
+              </p>
+            )}
+            {isHeuristic && (
+              <p className="text-yellow-400 mt-2">
+                Heuristic scores include a little random noise, so boundaries near a threshold may jitter between runs.
+              </p>
+            )}
+            {skipped > 0 && (
+              <p className="text-yellow-400 mt-2">
+                {skipped} of {points?.length} runs fell back to another source and are left out, so they can't pose
+                as class changes.
+              </p>
+            )}
+          </div>
+
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 40 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                <XAxis
+                  type="number"
+                  dataKey="value"
+                  domain={['dataMin', 'dataMax']}
+                  stroke="#9ca3af"
+                  tickFormatter={formatValue}
+                  label={{ value: `${info.label}${info.unit ? ` (${info.unit})` : ''}`, position: 'bottom', offset: 20, fill: '#9ca3af' }}
+                />
+                <YAxis domain={[0, 100]} unit="%" stroke="#9ca3af" />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151', borderRadius: '8px' }}
+                  labelStyle={{ color: '#fff' }}
+                  labelFormatter={(value) => `${info.label}: ${formatValue(Number(value))}${unit}`}
+                  formatter={(value, name) => [`${value}%`, name]}
+                />
+                <Legend verticalAlign="top" wrapperStyle={{ paddingBottom: '10px' }} />
+                <ReferenceLine x={baseValue} stroke="#22d3ee" strokeDasharray="4 4" label={{ value: 'current', fill: '#22d3ee', position: 'top' }} />
+                {boundaries.map((b) => (
+                  <ReferenceLine key={b.at} x={b.at} stroke={classColors[b.to]} strokeOpacity={0.6} />
+                ))}
+                <Line
+                  type="monotone"
+                  dataKey="confidence"
+                  name="Confidence"
+                  stroke="#8b5cf6"
+                  strokeWidth={2}
+                  isAnimationActive={false}
+                  dot={({ cx, cy, payload }) => (
+                    <circle key={payload.value} cx={cx} cy={cy} r={4} fill={classColors[payload.status]} stroke="none" />
+                  )}
+                />
+                {hasProbabilities && (
+                  <Line
+                    type="monotone"
+                    dataKey="candidate"
+                    name="P(candidate)"
+                    stroke="#10b981"
+                    strokeDasharray="5 5"
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                )}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-400">
+            {(Object.keys(statusLabels) as PredictionResult['status'][]).map((s) => (
+              <span key={s} className="flex items-center">
+                <span className="w-2.5 h-2.5 rounded-full mr-1.5" style={{ backgroundColor: classColors[s] }} />
+                {statusLabels[s]}
+              </span>
+            ))}
+          </div>
+        </>
+      ))}
+    </Card>
+  );
+}
@@ -0,0 +1,57 @@
+import { InferenceSource } from '../../types';
+import { Cpu, ServerCrash, WifiOff, HelpCircle, Laptop } from 'lucide-react';
+
+interface SourceBadgeProps {
+  source?: InferenceSource;
+  size?: 'sm' | 'md';
+}
+
+const sourceConfig = {
+  model: {
+    icon: Cpu,
+    label: 'Backend model',
+    description: 'Output of the trained Random Forest served by the backend.',
+    className: 'bg-cyan-500/15 text-cyan-300 border-cyan-500/40'
+  },
+  server_heuristic: {
+    icon: ServerCrash,
+    label: 'Server heuristic',
+    description: 'The backend could not load its model and scored the input with a fixed formula.',
+    className: 'bg-amber-500/15 text-amber-300 border-amber-500/40'
+  },
+  offline_model: {
+    icon: Laptop,
+    label: 'In-browser model',
+    description: 'The same trained Random Forest, exported to JSON and evaluated locally.',
+    className: 'bg-violet-500/15 text-violet-300 border-violet-500/40'
+  },
+  offline_heuristic: {
+    icon: WifiOff,
+    label: 'Offline heuristic',
+    description: 'The backend was unreachable. This score comes from hand-set weights in the browser, not a trained model.',
+    className: 'bg-red-500/15 text-red-300 border-red-500/40'
+  }
+};
+
+const unknownSource = {
+  icon: HelpCircle,
+  label: 'Source unknown',
+  description: 'Saved before inference sources were recorded.',
+  className: 'bg-gray-700/40 text-gray-400 border-gray-600'
+};
+
+export function SourceBadge({ source, size = 'md' }: SourceBadgeProps) {
+  const config = source ? sourceConfig[source] : unknownSource;
+  const Icon = config.icon;
+  const sizeClasses = size === 'sm' ? 'px-2 py-0.5 text-xs' : 'px-3 py-1 text-sm';
+
+  return (
+    <span
+      title={config.description}
+      className={`inline-flex items-center space-x-1.5 rounded-full border font-semibold ${sizeClasses} ${config.className}`}
+    >
+      <Icon className={size === 'sm' ? 'w-3 h-3' : 'w-4 h-4'} />
+      <span>{config.label}</span>
+    </span>
+  );
+}
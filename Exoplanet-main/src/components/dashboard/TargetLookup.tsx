@@ -0,0 +1,103 @@
+import { useState, useMemo } from 'react';
+import { CatalogEntry } from '../../types';
+import { REFERENCE_SOURCE, getCatalog, searchCatalog } from '../../utils/catalog';
+import { classColors } from '../../data/models';
+import { Search } from 'lucide-react';
+
+interface TargetLookupProps {
+  onSelect: (entry: CatalogEntry) => void;
+}
+
+export function TargetLookup({ onSelect }: TargetLookupProps) {
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [filledFrom, setFilledFrom] = useState<CatalogEntry | null>(null);
+  // Read when the lookup is focused so a CSV loaded in Explorer since is included
+  const [catalog, setCatalog] = useState<CatalogEntry[]>(getCatalog);
+
+  const matches = useMemo(() => searchCatalog(catalog, query), [catalog, query]);
+
+  const handleSelect = (entry: CatalogEntry) => {
+    onSelect(entry);
+    setFilledFrom(entry);
+    setQuery('');
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      // Don't submit the surrounding prediction form
+      e.preventDefault();
+      if (matches[0]) handleSelect(matches[0]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative mb-4">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500" />
+        <input
+          type="text"
+          value={query}
+          placeholder="Look up a target: Kepler-22b, KOI-72.01, KIC 8120608…"
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => {
+            setCatalog(getCatalog());
+            setOpen(true);
+          }}
+          onBlur={() => setOpen(false)}
+          onKeyDown={handleKeyDown}
+          className="w-full pl-10 pr-4 py-2.5 bg-gray-900/50 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent transition-all"
+        />
+      </div>
+
+      {open && query.trim() !== '' && (
+        <div className="absolute z-20 mt-1 w-full bg-gray-800 border border-gray-700 rounded-lg shadow-xl overflow-hidden">
+          {matches.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-400">
+              No match in the reference targets{catalog.some((e) => e.source !== REFERENCE_SOURCE) ? ' or the CSV loaded in Explorer' : '. Load a CSV in Explorer to search its rows too'}.
+            </p>
+          ) : (
+            matches.map((entry) => (
+              <button
+                key={`${entry.source}-${entry.id}`}
+                type="button"
+                // Select before the input's blur closes the list
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  handleSelect(entry);
+                }}
+                className="w-full text-left px-4 py-2.5 hover:bg-gray-700/60 transition-colors border-b border-gray-700/50 last:border-0"
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-white font-medium">{entry.name}</span>
+                  {entry.disposition && (
+                    <span className="text-xs" style={{ color: classColors[entry.disposition] ?? '#9ca3af' }}>
+                      {entry.disposition.replace('_', ' ')}
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {entry.source} · P = {entry.input.orbitalPeriod} d · depth {entry.input.transitDepth} ppm · Rp{' '}
+                  {entry.input.planetRadius} R⊕
+                </p>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+
+      {filledFrom && (
+        <p className="mt-2 text-xs text-gray-400">
+          Filled from <span className="text-cyan-400">{filledFrom.name}</span> ({filledFrom.source}). Check the values
+          before predicting.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { NumericInputField, UnitPreferences } from '../../types';
+import { fieldUnits, fromCanonical, spreadFromCanonical, spreadToCanonical, toCanonical, unitFor } from '../../utils/units';
+import { Input } from '../ui/Input';
+
+interface UnitInputProps {
+  field: NumericInputField;
+  // Canonical value; undefined shows the placeholder
+  value: number | undefined;
+  units: UnitPreferences;
+  onChange: (value: number | undefined) => void;
+  onUnitChange: (field: NumericInputField, unitId: string) => void;
+  // Canonical 1σ uncertainty; the ± box only shows when onUncertaintyChange is given
+  uncertainty?: number;
+  onUncertaintyChange?: (field: NumericInputField, uncertainty: number | undefined) => void;
+  label?: string;
+  // Canonical bounds, converted to the selected unit for the browser's validation
+  min?: number;
+  max?: number;
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * Number input with a unit picker. It shows and accepts values in the
+ * selected unit but reports them in the canonical unit, so callers never
+ * see anything else.
+ */
+export function UnitInput({
+  field,
+  value,
+  units,
+  onChange,
+  onUnitChange,
+  uncertainty,
+  onUncertaintyChange,
+  label,
+  min,
+  max,
+  placeholder,
+  className = ''
+}: UnitInputProps) {
+  const options = fieldUnits[field] ?? [];
+  const unit = unitFor(field, units);
+  const shown = (v: number | undefined) => (v === undefined ? undefined : fromCanonical(field, v, units));
+
+  return (
+    <div className={className}>
+      {label && <label className="block text-sm font-medium text-gray-300 mb-2">{label}</label>}
+      <div className="flex gap-2">
+        <Input
+          type="number"
+          step="any"
+          min={shown(min)}
+          max={shown(max)}
+          placeholder={placeholder}
+          value={shown(value) ?? ''}
+          onChange={(e) =>
+            onChange(e.target.value === '' ? undefined : toCanonical(field, parseFloat(e.target.value), units))
+          }
+        />
+        {onUncertaintyChange && (
+          <div className="w-32 flex-shrink-0">
+            <Input
+              type="number"
+              min={0}
+              step="any"
+              placeholder="± 1σ"
+              aria-label={`${label ?? field} uncertainty`}
+              value={uncertainty === undefined ? '' : spreadFromCanonical(field, uncertainty, units)}
+              onChange={(e) =>
+                onUncertaintyChange(
+                  field,
+                  e.target.value === '' ? undefined : Math.abs(spreadToCanonical(field, parseFloat(e.target.value), units))
+                )
+              }
+            />
+          </div>
+        )}
+        {options.length > 1 && (
+          <select
+            value={unit?.id}
+            onChange={(e) => onUnitChange(field, e.target.value)}
+            aria-label={`${label ?? field} unit`}
+            className="px-2 bg-gray-900/50 border border-gray-700 rounded-lg text-gray-300 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          >
+            {options.map((u) => (
+              <option key={u.id} value={u.id}>
+                {u.label}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+    </div>
+  );
+}
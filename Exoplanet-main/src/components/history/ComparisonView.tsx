@@ -0,0 +1,195 @@
+import { RadarChart, Radar, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Legend, Tooltip, ResponsiveContainer } from 'recharts';
+import { Card } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { SourceBadge } from '../dashboard/SourceBadge';
+import { CoreFeature, NumericInputField, Prediction, PredictionResult, UnitPreferences } from '../../types';
+import { classColors } from '../../data/models';
+import { inputFieldInfo, flagFieldInfo } from '../../data/inputFields';
+import { trainingEnvelopes } from '../../data/trainingEnvelopes';
+import { formatInUnits } from '../../utils/units';
+import { GitCompare, X } from 'lucide-react';
+
+interface ComparisonViewProps {
+  // 2–6 entries; the first is the reference the others are compared against
+  entries: Prediction[];
+  units: UnitPreferences;
+  onClose: () => void;
+}
+
+// One colour per column, matched between the table header and the radar
+const ENTRY_COLORS = ['#06b6d4', '#8b5cf6', '#f59e0b', '#22c55e', '#ec4899', '#f97316'];
+// Values closer than this (relative) count as the same
+const SAME_TOLERANCE = 1e-6;
+
+const RADAR_FEATURES: CoreFeature[] = [
+  'signalToNoise',
+  'transitDepth',
+  'orbitalPeriod',
+  'transitDuration',
+  'planetRadius',
+  'planetTemperature'
+];
+
+const verdicts: Record<PredictionResult['status'], string> = {
+  candidate: 'Candidate',
+  false_positive: 'False Positive',
+  unknown: 'Uncertain'
+};
+
+// Log-scale span of each radar feature: lowest 1st to highest 99th percentile over the bundled mission ranges
+const radarRanges = Object.fromEntries(
+  RADAR_FEATURES.map((field) => {
+    const ranges = Object.values(trainingEnvelopes).flatMap((mission) => (mission[field] ? [mission[field]] : []));
+    return [field, [Math.log10(Math.min(...ranges.map((r) => r.p1))), Math.log10(Math.max(...ranges.map((r) => r.p99)))]];
+  })
+) as Record<CoreFeature, [number, number]>;
+
+function radarPosition(field: CoreFeature, value: number | undefined): number | undefined {
+  if (typeof value !== 'number' || !(value > 0)) return undefined;
+  const [low, high] = radarRanges[field];
+  return Math.min(Math.max((Math.log10(value) - low) / (high - low), 0), 1);
+}
+
+function same(a: number | boolean | undefined, b: number | boolean | undefined): boolean {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return Math.abs(a - b) <= SAME_TOLERANCE * Math.max(Math.abs(a), Math.abs(b));
+  }
+  return a === b;
+}
+
+/**
+ * Side-by-side view of a few stored predictions: verdicts, every input in
+ * aligned columns with values that differ from the first entry highlighted,
+ * and the six core features on a radar normalized to the training ranges.
+ */
+export function ComparisonView({ entries, units, onClose }: ComparisonViewProps) {
+  const [reference] = entries;
+  const numericFields = (Object.keys(inputFieldInfo) as NumericInputField[]).filter((f) =>
+    entries.some((e) => typeof e.input[f] === 'number')
+  );
+  const flagFields = (Object.keys(flagFieldInfo) as Array<keyof typeof flagFieldInfo>).filter((f) =>
+    entries.some((e) => e.input[f] !== undefined)
+  );
+  const rows = [
+    ...numericFields.map((field) => ({
+      field,
+      label: inputFieldInfo[field].label,
+      format: (e: Prediction) => formatInUnits(field, e.input[field], units, 6)
+    })),
+    ...flagFields.map((field) => ({
+      field,
+      label: flagFieldInfo[field].label,
+      format: (e: Prediction) => (e.input[field] === undefined ? '—' : e.input[field] ? 'yes' : 'no')
+    }))
+  ];
+
+  const radarData = RADAR_FEATURES.map((field) => ({
+    feature: inputFieldInfo[field].label,
+    field,
+    ...Object.fromEntries(entries.map((e, i) => [`entry${i}`, radarPosition(field, e.input[field])]))
+  }));
+  const entryName = (e: Prediction, i: number) => `#${i + 1} ${e.modelName}`;
+
+  return (
+    <Card className="p-8 mb-8">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-2xl font-bold text-white flex items-center">
+          <GitCompare className="w-6 h-6 mr-3 text-cyan-400" />
+          Comparing {entries.length} Predictions
+        </h3>
+        <Button variant="outline" size="sm" onClick={onClose}>
+          <X className="w-4 h-4 mr-2" />
+          Close
+        </Button>
+      </div>
+
+      <div className="overflow-x-auto mb-8">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-700">
+              <th />
+              {entries.map((e, i) => (
+                <th key={e.id} className="px-3 pb-3 text-left align-top font-normal">
+                  <div className="flex items-center space-x-2 mb-1">
+                    <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: ENTRY_COLORS[i] }} />
+                    <span className="font-semibold text-white">{entryName(e, i)}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mb-2">{new Date(e.timestamp).toLocaleString()}</p>
+                  <p className="font-bold" style={{ color: classColors[e.result.status] }}>
+                    {verdicts[e.result.status]} · {Math.round(e.result.confidence * 100)}%
+                  </p>
+                  <div className="mt-2">
+                    <SourceBadge source={e.result.source} size="sm" />
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => {
+              const differs = entries.some((e) => !same(e.input[row.field], reference.input[row.field]));
+              return (
+                <tr key={row.field} className="border-b border-gray-800">
+                  <td className={`py-2 pr-4 whitespace-nowrap ${differs ? 'text-amber-300' : 'text-gray-400'}`}>
+                    {row.label}
+                  </td>
+                  {entries.map((e, i) => (
+                    <td
+                      key={e.id}
+                      className={`px-3 py-2 font-mono ${
+                        i > 0 && !same(e.input[row.field], reference.input[row.field])
+                          ? 'bg-amber-500/10 text-amber-300'
+                          : 'text-white'
+                      }`}
+                    >
+                      {row.format(e)}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <p className="text-xs text-gray-500 mt-3">
+          Highlighted values differ from #1. Labels in amber mark inputs that aren't the same across all entries.
+        </p>
+      </div>
+
+      <h4 className="text-lg font-semibold text-white mb-1">Core Features</h4>
+      <p className="text-xs text-gray-500 mb-3">
+        Log scale from the lowest 1st to the highest 99th percentile of the missions' training data; values past
+        either end sit on the edge, and missing inputs are left out.
+      </p>
+      <div className="h-96">
+        <ResponsiveContainer width="100%" height="100%">
+          <RadarChart data={radarData} outerRadius="75%">
+            <PolarGrid stroke="#374151" />
+            <PolarAngleAxis dataKey="feature" stroke="#9ca3af" tick={{ fontSize: 12 }} />
+            <PolarRadiusAxis domain={[0, 1]} tick={false} axisLine={false} />
+            {entries.map((e, i) => (
+              <Radar
+                key={e.id}
+                name={entryName(e, i)}
+                dataKey={`entry${i}`}
+                stroke={ENTRY_COLORS[i]}
+                fill={ENTRY_COLORS[i]}
+                fillOpacity={0.12}
+                isAnimationActive={false}
+              />
+            ))}
+            <Tooltip
+              contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151', borderRadius: '8px' }}
+              labelStyle={{ color: '#fff' }}
+              formatter={(_value, name, item) => {
+                const index = Number(String(item.dataKey).replace('entry', ''));
+                const field = (item.payload as (typeof radarData)[number]).field;
+                return [formatInUnits(field, entries[index].input[field], units), name];
+              }}
+            />
+            <Legend />
+          </RadarChart>
+        </ResponsiveContainer>
+      </div>
+    </Card>
+  );
+}
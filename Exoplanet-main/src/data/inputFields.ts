@@ -0,0 +1,42 @@
+import { FlagField, NumericInputField } from '../types';
+
+// Display names, units and the backend serializer's accepted range for every numeric PredictionInput field
+export const inputFieldInfo: Record<NumericInputField, { label: string; unit?: string; min?: number; max?: number }> = {
+  signalToNoise: { label: 'Signal-to-Noise Ratio', min: 0 },
+  transitDepth: { label: 'Transit Depth', unit: 'ppm', min: 0 },
+  orbitalPeriod: { label: 'Orbital Period', unit: 'days', min: 0 },
+  transitDuration: { label: 'Transit Duration', unit: 'hours', min: 0 },
+  planetRadius: { label: 'Planet Radius', unit: 'R⊕', min: 0 },
+  planetTemperature: { label: 'Equilibrium Temperature', unit: 'K', min: 0 },
+  nasaConfidence: { label: 'NASA Confidence Score', min: 0, max: 1 },
+  starTemperature: { label: 'Stellar Temperature', unit: 'K', min: 0 },
+  starRadius: { label: 'Stellar Radius', unit: 'R☉', min: 0 },
+  starMass: { label: 'Stellar Mass', unit: 'M☉', min: 0 },
+  distance: { label: 'Distance', unit: 'pc', min: 0 },
+  impactParameter: { label: 'Impact Parameter', min: 0, max: 1 },
+  eccentricity: { label: 'Eccentricity', min: 0, max: 1 },
+  inclination: { label: 'Inclination', unit: 'deg', min: 0, max: 180 },
+  metallicity: { label: 'Stellar Metallicity', unit: 'dex' },
+  surfaceGravity: { label: 'Stellar Surface Gravity', unit: 'log g' },
+  age: { label: 'Stellar Age', unit: 'Gyr', min: 0 }
+};
+
+// Kepler DV false-positive flags (koi_fpflag_*)
+export const flagFieldInfo: Record<FlagField, { label: string; description: string }> = {
+  flagNotTransit: {
+    label: 'Not transit-like',
+    description: 'The light curve is inconsistent with a transiting planet (e.g. instrumental artefact or variability).'
+  },
+  flagStellarEclipse: {
+    label: 'Stellar eclipse',
+    description: 'A secondary eclipse or other sign that the signal comes from an eclipsing binary.'
+  },
+  flagCentroidOffset: {
+    label: 'Centroid offset',
+    description: 'The flux centroid shifts during transit, pointing to a nearby star as the source.'
+  },
+  flagEphemerisMatch: {
+    label: 'Ephemeris match',
+    description: 'Period and epoch match another known object, suggesting contamination.'
+  }
+};
@@ -27,6 +27,24 @@ export const models: Record<string, ModelInfo> = {
   }
 };
 
+// Display names for the koi_* feature columns the models are trained on
+export const featureLabels: Record<string, string> = {
+  koi_model_snr: 'Signal-to-Noise',
+  koi_depth: 'Transit Depth',
+  koi_prad: 'Planet Radius',
+  koi_teq: 'Planet Temperature',
+  koi_duration: 'Transit Duration',
+  koi_period: 'Orbital Period'
+};
+
+// Colors for the class names the backend models return
+export const classColors: Record<string, string> = {
+  confirmed: '#22c55e',
+  candidate: '#06b6d4',
+  false_positive: '#ef4444',
+  unknown: '#f59e0b'
+};
+
 export const modelSpecifications: Record<string, ModelSpecification> = {
   K2: {
     dataset: {
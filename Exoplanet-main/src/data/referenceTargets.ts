@@ -0,0 +1,128 @@
+import { ReferenceTarget } from '../types';
+
+// Well-known confirmed planets, with their KOI, Kepler and KIC identifiers for the target lookup.
+// Values are approximate: rounded from the NASA Exoplanet Archive cumulative KOI table and the
+// discovery papers, with SNRs only to their order of magnitude. Fine for trying the models out;
+// check the archive before relying on any of them.
+export const referenceTargets: ReferenceTarget[] = [
+  {
+    id: 'kepler-22b',
+    name: 'Kepler-22b',
+    mission: 'Kepler',
+    disposition: 'confirmed',
+    // Borucki et al. (2012)
+    input: {
+      signalToNoise: 35.8,
+      transitDepth: 492,
+      orbitalPeriod: 289.86,
+      transitDuration: 7.43,
+      planetRadius: 2.38,
+      planetTemperature: 262,
+      starTemperature: 5518,
+      starRadius: 0.98,
+      starMass: 0.97
+    },
+    note: 'First Kepler planet found in its star\'s habitable zone',
+    aliases: ['KOI-87.01', 'Kepler-22 b', 'KIC 10593626']
+  },
+  {
+    id: 'kepler-10b',
+    name: 'Kepler-10b',
+    mission: 'Kepler',
+    disposition: 'confirmed',
+    // Batalha et al. (2011), Dumusque et al. (2014)
+    input: {
+      signalToNoise: 300,
+      transitDepth: 152,
+      orbitalPeriod: 0.8375,
+      transitDuration: 1.81,
+      planetRadius: 1.47,
+      planetTemperature: 2170,
+      starTemperature: 5708,
+      starRadius: 1.07,
+      starMass: 0.91
+    },
+    note: 'First rocky planet confirmed by Kepler; a lava world on a 20-hour orbit',
+    aliases: ['KOI-72.01', 'Kepler-10 b', 'KIC 11904151']
+  },
+  {
+    id: 'kepler-186f',
+    name: 'Kepler-186f',
+    mission: 'Kepler',
+    disposition: 'confirmed',
+    // Quintana et al. (2014)
+    input: {
+      signalToNoise: 12,
+      transitDepth: 430,
+      orbitalPeriod: 129.94,
+      transitDuration: 5.8,
+      planetRadius: 1.17,
+      planetTemperature: 190,
+      starTemperature: 3755,
+      starRadius: 0.52,
+      starMass: 0.54
+    },
+    note: 'Earth-sized planet in the habitable zone of an M dwarf',
+    aliases: ['KOI-571.05', 'Kepler-186 f', 'KIC 8120608']
+  },
+  {
+    id: 'kepler-452b',
+    name: 'Kepler-452b',
+    mission: 'Kepler',
+    disposition: 'confirmed',
+    // Jenkins et al. (2015)
+    input: {
+      signalToNoise: 12,
+      transitDepth: 180,
+      orbitalPeriod: 384.84,
+      transitDuration: 10.6,
+      planetRadius: 1.63,
+      planetTemperature: 265,
+      starTemperature: 5757,
+      starRadius: 1.11,
+      starMass: 1.04
+    },
+    note: 'Super-Earth on a near year-long orbit around a Sun-like star; only three transits observed',
+    aliases: ['KOI-7016.01', 'Kepler-452 b', 'KIC 8311864']
+  },
+  {
+    id: 'kepler-1b',
+    name: 'Kepler-1b (TrES-2b)',
+    mission: 'Kepler',
+    disposition: 'confirmed',
+    // O'Donovan et al. (2006), Kipping & Bakos (2011)
+    input: {
+      signalToNoise: 5000,
+      transitDepth: 14300,
+      orbitalPeriod: 2.4706,
+      transitDuration: 1.8,
+      planetRadius: 13.1,
+      planetTemperature: 1495,
+      starTemperature: 5850,
+      starRadius: 1.0,
+      starMass: 0.98
+    },
+    note: 'Grazing hot Jupiter, and one of the darkest planets known',
+    aliases: ['KOI-1.01', 'Kepler-1 b', 'TrES-2 b', 'KIC 11446443']
+  },
+  {
+    id: 'kepler-2b',
+    name: 'Kepler-2b (HAT-P-7b)',
+    mission: 'Kepler',
+    disposition: 'confirmed',
+    // Pál et al. (2008), Welsh et al. (2010)
+    input: {
+      signalToNoise: 4000,
+      transitDepth: 6700,
+      orbitalPeriod: 2.2047,
+      transitDuration: 3.8,
+      planetRadius: 16,
+      planetTemperature: 2130,
+      starTemperature: 6350,
+      starRadius: 1.84,
+      starMass: 1.47
+    },
+    note: 'Hot Jupiter on a polar orbit around an F star',
+    aliases: ['KOI-2.01', 'Kepler-2 b', 'HAT-P-7 b', 'KIC 10666592']
+  }
+];
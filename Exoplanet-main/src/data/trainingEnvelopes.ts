@@ -0,0 +1,42 @@
+import { CoreFeature, FeatureEnvelope, ModelType } from '../types';
+
+/**
+ * Approximate feature ranges of each mission's training table, hand-rounded
+ * from the NASA Exoplanet Archive releases listed in modelSpecifications.
+ * They are a fallback for builds without forest exports, whose exact ranges take
+ * precedence (see utils/envelope), and the UI says so while it relies on them.
+ * Running `python manage.py export_envelopes` in backend/ with the training
+ * tables in backend/data replaces this file with the exact ranges.
+ *
+ * Features a model has no spread for are left out (TESS has no SNR column,
+ * so it is filled with a single value in training). The TOI table has no
+ * equilibrium temperature; the TESS model is trained on st_teff in its place.
+ */
+export const trainingEnvelopes: Record<ModelType, Partial<Record<CoreFeature, FeatureEnvelope>>> = {
+  Kepler: {
+    signalToNoise: { min: 0, p1: 7.3, p50: 24, p99: 3500, max: 9050 },
+    transitDepth: { min: 0, p1: 12, p50: 420, p99: 120000, max: 1540000 },
+    orbitalPeriod: { min: 0.24, p1: 0.5, p50: 10, p99: 520, max: 129995 },
+    transitDuration: { min: 0.05, p1: 0.9, p50: 3.8, p99: 20, max: 138 },
+    planetRadius: { min: 0.08, p1: 0.5, p50: 2.4, p99: 260, max: 200346 },
+    planetTemperature: { min: 25, p1: 280, p50: 900, p99: 3600, max: 14667 }
+  },
+  K2: {
+    signalToNoise: { min: 5, p1: 7, p50: 20, p99: 800, max: 5000 },
+    transitDepth: { min: 20, p1: 100, p50: 1500, p99: 40000, max: 200000 },
+    orbitalPeriod: { min: 0.2, p1: 0.5, p50: 8, p99: 60, max: 400 },
+    transitDuration: { min: 0.3, p1: 0.8, p50: 2.9, p99: 12, max: 40 },
+    planetRadius: { min: 0.4, p1: 0.8, p50: 2.6, p99: 25, max: 100 },
+    planetTemperature: { min: 150, p1: 300, p50: 900, p99: 2500, max: 4000 }
+  },
+  TESS: {
+    transitDepth: { min: 12, p1: 150, p50: 2000, p99: 45000, max: 250000 },
+    orbitalPeriod: { min: 0.15, p1: 0.5, p50: 5, p99: 100, max: 1000 },
+    transitDuration: { min: 0.2, p1: 0.8, p50: 2.8, p99: 10, max: 30 },
+    planetRadius: { min: 0.3, p1: 0.9, p50: 4, p99: 30, max: 110 },
+    planetTemperature: { min: 2600, p1: 3200, p50: 5800, p99: 9000, max: 15000 }
+  }
+};
+
+// False while the ranges above are hand-rounded; export_envelopes writes true
+export const trainingEnvelopesExact = false;
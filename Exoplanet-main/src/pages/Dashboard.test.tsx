@@ -0,0 +1,61 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { ModelType } from '../types';
+import { generatePrediction } from '../utils/prediction';
+import { Dashboard } from './Dashboard';
+
+vi.mock('../utils/prediction', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/prediction')>()),
+  generatePrediction: vi.fn(async () => ({
+    status: 'candidate',
+    confidence: 0.9,
+    explanation: 'A transit.',
+    source: 'model'
+  }))
+}));
+
+// No backend or forest exports: ranges come from the bundled envelopes
+vi.mock('../utils/forest', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/forest')>()),
+  loadForest: vi.fn(async () => null)
+}));
+vi.mock('../utils/modelFeatures', () => ({ loadAdvancedFields: vi.fn(async () => []) }));
+
+// Charts need a layout engine; the waterfall stub shows which mission it would explain
+vi.mock('../components/dashboard/ContributionWaterfall', () => ({
+  ContributionWaterfall: ({ model }: { model: ModelType | null }) => <p>Contributions for {model}</p>
+}));
+vi.mock('../components/dashboard/LightCurveChart', () => ({ LightCurveChart: () => null }));
+vi.mock('../components/dashboard/SensitivitySweep', () => ({ SensitivitySweep: () => null }));
+vi.mock('../components/dashboard/MonteCarloPanel', () => ({ MonteCarloPanel: () => null }));
+vi.mock('../components/dashboard/OrbitalDiagram', () => ({ OrbitalDiagram: () => null }));
+
+function missionButton(name: ModelType): HTMLElement {
+  return screen.getByRole('heading', { name }).closest('button')!;
+}
+
+describe('Dashboard', () => {
+  afterEach(() => {
+    cleanup();
+    vi.clearAllMocks();
+  });
+
+  it('keeps describing a result with the mission it was made with after the selection changes', async () => {
+    render(
+      <MemoryRouter>
+        <Dashboard />
+      </MemoryRouter>
+    );
+
+    fireEvent.click(missionButton('Kepler'));
+    fireEvent.click(screen.getByRole('button', { name: /Predict Candidate/ }));
+    expect(await screen.findByText(/Kepler Mission/)).toBeTruthy();
+    expect(vi.mocked(generatePrediction).mock.calls[0][1]).toBe('Kepler');
+
+    fireEvent.click(missionButton('TESS'));
+    expect(screen.getByText(/Model Used:/).closest('p')!.textContent).toContain('Kepler Mission');
+    expect(screen.getByText('Contributions for Kepler')).toBeTruthy();
+  });
+});
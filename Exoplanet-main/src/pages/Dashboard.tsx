@@ -1,41 +1,192 @@
-import { useState } from 'react';
+import { useState, useRef, useEffect, useMemo, useCallback } from 'react';
 import { motion } from 'framer-motion';
-import { ModelType, PredictionInput, PredictionResult } from '../types';
+import { useSearchParams } from 'react-router-dom';
+import { InputUncertainties, ModelType, PredictionInput, PredictionResult, UnitPreferences } from '../types';
 import { models } from '../data/models';
 import { generatePrediction } from '../utils/prediction';
 import { savePrediction } from '../utils/storage';
+import { checkConsistency } from '../utils/consistency';
+import { decodeDeepLink, deepLinkUrl, encodeDeepLink } from '../utils/deepLink';
+import { MissionEnvelope, loadEnvelope } from '../utils/envelope';
+import { recommendMission } from '../utils/recommendation';
+import { getSettings, saveSettings } from '../utils/settings';
 import { ModelSelection } from '../components/dashboard/ModelSelection';
 import { ParameterInput } from '../components/dashboard/ParameterInput';
 import { PredictionVisualization } from '../components/dashboard/PredictionVisualization';
+import { EnsembleVisualization } from '../components/dashboard/EnsembleVisualization';
+import { SensitivitySweep } from '../components/dashboard/SensitivitySweep';
+import { MonteCarloPanel } from '../components/dashboard/MonteCarloPanel';
+import { DerivedQuantitiesPanel } from '../components/dashboard/DerivedQuantitiesPanel';
+import { OrbitalDiagram } from '../components/dashboard/OrbitalDiagram';
+import { Card } from '../components/ui/Card';
+import { Link2, XCircle } from 'lucide-react';
+import { CancelledError, describeError } from '../services/errors';
 
 export function Dashboard() {
-  const [selectedModel, setSelectedModel] = useState<ModelType>('TESS');
+  const [searchParams, setSearchParams] = useSearchParams();
+  // An analysis shared by link (see utils/deepLink) is restored on load; running it is left to the user so
+  // opening a link doesn't add to anyone's history
+  const [initialLink] = useState(() => decodeDeepLink(searchParams));
+  const [selectedModel, setSelectedModel] = useState<ModelType>(initialLink?.model ?? 'TESS');
   const [prediction, setPrediction] = useState<PredictionResult | null>(null);
+  // What the shown prediction was made from, so the sweep and Monte Carlo vary the same input on the same mission
+  const [lastRun, setLastRun] = useState<{
+    input: PredictionInput;
+    model: ModelType;
+    uncertainties: InputUncertainties;
+  } | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<{ title: string; message: string } | null>(null);
+  const [ensembleMode, setEnsembleMode] = useState(initialLink?.model === null);
+  const [ensembleResults, setEnsembleResults] = useState<Partial<Record<ModelType, PredictionResult>> | null>(null);
+  const [ensembleErrors, setEnsembleErrors] = useState<Partial<Record<ModelType, string>>>({});
+  const abortRef = useRef<AbortController | null>(null);
+  // The form's current input, for recommending a mission before anything is submitted
+  const [draft, setDraft] = useState<{ input: PredictionInput; units: UnitPreferences } | null>(null);
+  const [envelopes, setEnvelopes] = useState<Partial<Record<ModelType, MissionEnvelope>>>({});
+  const [autoSelect, setAutoSelect] = useState(() => getSettings().autoSelectModel);
+  // A shared link names its mission; don't switch away from it on load
+  const keepLinkedModel = useRef(initialLink?.model != null);
 
-  const handlePredict = async (input: PredictionInput) => {
+  // Cancel whatever is in flight when leaving the Dashboard
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    let active = true;
+    (Object.keys(models) as ModelType[]).forEach(async (mission) => {
+      const envelope = await loadEnvelope(mission);
+      if (active) setEnvelopes((prev) => ({ ...prev, [mission]: envelope }));
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const handleInputChange = useCallback((input: PredictionInput, units: UnitPreferences) => {
+    setDraft({ input, units });
+  }, []);
+
+  // Waits for every mission so the pick doesn't jump around while envelopes load
+  const recommendation = useMemo(
+    () =>
+      draft && Object.keys(envelopes).length === Object.keys(models).length
+        ? recommendMission(draft.input, envelopes, selectedModel, draft.units)
+        : null,
+    [draft, envelopes, selectedModel]
+  );
+  const recommended = recommendation?.recommended;
+
+  useEffect(() => {
+    if (!recommended) return;
+    if (keepLinkedModel.current) {
+      keepLinkedModel.current = false;
+      return;
+    }
+    if (autoSelect) setSelectedModel(recommended);
+  }, [recommended, autoSelect]);
+
+  const toggleAutoSelect = () => {
+    const next = !autoSelect;
+    setAutoSelect(next);
+    saveSettings({ ...getSettings(), autoSelectModel: next });
+  };
+
+  // Aborts the previous run, if any, and hands out a signal for the new one
+  const startRun = () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    return controller.signal;
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsProcessing(false);
+  };
+
+  // Runs every mission model on the same input at once; each verdict is saved to history on its own
+  const handleEnsemblePredict = async (input: PredictionInput, units?: UnitPreferences) => {
+    const signal = startRun();
+    setIsProcessing(true);
+    setEnsembleResults(null);
+    setEnsembleErrors({});
+
+    const missions = Object.keys(models) as ModelType[];
+    const settled = await Promise.allSettled(missions.map((m) => generatePrediction(input, m, signal)));
+    if (signal.aborted) return;
+
+    const results: Partial<Record<ModelType, PredictionResult>> = {};
+    const errors: Partial<Record<ModelType, string>> = {};
+    const timestamp = new Date().toISOString();
+    const warnings = checkConsistency(input);
+
+    settled.forEach((outcome, i) => {
+      const mission = missions[i];
+      if (outcome.status === 'fulfilled') {
+        results[mission] = outcome.value;
+        savePrediction({
+          id: crypto.randomUUID(),
+          timestamp,
+          modelName: mission,
+          input,
+          result: outcome.value,
+          warnings,
+          inputUnits: units
+        });
+      } else {
+        console.error(`${mission} prediction failed:`, outcome.reason);
+        errors[mission] = describeError(outcome.reason).message;
+      }
+    });
+
+    setEnsembleResults(results);
+    setEnsembleErrors(errors);
+    setIsProcessing(false);
+    setSearchParams(encodeDeepLink({ model: null, input }), { replace: true });
+  };
+
+  const handleSinglePredict = async (
+    input: PredictionInput,
+    model: ModelType,
+    units?: UnitPreferences,
+    uncertainties: InputUncertainties = {}
+  ) => {
+    const signal = startRun();
     setIsProcessing(true);
     setPrediction(null);
+    setError(null);
 
     try {
-      const result = await generatePrediction(input, selectedModel);
+      const result = await generatePrediction(input, model, signal);
+      if (signal.aborted) return;
       setPrediction(result);
+      setLastRun({ input, model, uncertainties });
+      setSearchParams(encodeDeepLink({ model, input }), { replace: true });
 
       savePrediction({
         id: crypto.randomUUID(),
         timestamp: new Date().toISOString(),
-        modelName: selectedModel,
+        modelName: model,
         input,
-        result
+        result,
+        warnings: checkConsistency(input),
+        inputUnits: units
       });
     } catch (error) {
+      // A newer submission (or leaving the page) owns the UI state now
+      if (error instanceof CancelledError || signal.aborted) return;
       console.error('Prediction failed:', error);
-      // Handle error - could show a toast notification here
-    } finally {
-      setIsProcessing(false);
+      setError(describeError(error));
     }
+    setIsProcessing(false);
   };
 
+  const handlePredict = (input: PredictionInput, units: UnitPreferences, uncertainties: InputUncertainties) =>
+    ensembleMode
+      ? handleEnsemblePredict(input, units)
+      : handleSinglePredict(input, selectedModel, units, uncertainties);
+
   return (
     <div className="min-h-screen pt-24 pb-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-7xl mx-auto">
@@ -57,20 +208,87 @@ export function Dashboard() {
             <ModelSelection
               models={models}
               selectedModel={selectedModel}
-              onSelectModel={setSelectedModel}
+              onSelectModel={(model) => {
+                setSelectedModel(model);
+                setEnsembleMode(false);
+              }}
+              ensembleMode={ensembleMode}
+              onToggleEnsemble={() => setEnsembleMode((prev) => !prev)}
+              recommendation={recommendation}
+              autoSelect={autoSelect}
+              onToggleAutoSelect={toggleAutoSelect}
             />
           </div>
 
           <div className="lg:col-span-2 space-y-8">
-            <ParameterInput onPredict={handlePredict} isProcessing={isProcessing} />
+            <ParameterInput
+              model={ensembleMode ? null : selectedModel}
+              initialInput={initialLink?.input}
+              onPredict={handlePredict}
+              onInputChange={handleInputChange}
+              onCancel={handleCancel}
+              isProcessing={isProcessing}
+            />
+
+            {ensembleMode && (ensembleResults || isProcessing) && (
+              <EnsembleVisualization
+                results={ensembleResults}
+                errors={ensembleErrors}
+                isProcessing={isProcessing}
+              />
+            )}
+
+            {initialLink && !lastRun && !ensembleResults && !isProcessing && (
+              <Card className="p-4 border-cyan-500/30">
+                <p className="flex items-center text-sm text-gray-300">
+                  <Link2 className="w-4 h-4 mr-2 text-cyan-400 flex-shrink-0" />
+                  Parameters and mission loaded from a shared link. Press Predict to run the analysis.
+                </p>
+              </Card>
+            )}
 
-            {(prediction || isProcessing) && (
+            {!ensembleMode && error && (
+              <Card className="p-6 border-red-500/40">
+                <div className="flex items-start space-x-3">
+                  <XCircle className="w-6 h-6 text-red-400 flex-shrink-0" />
+                  <div>
+                    <h3 className="text-lg font-semibold text-red-400 mb-1">{error.title}</h3>
+                    <p className="text-gray-300 text-sm">{error.message}</p>
+                  </div>
+                </div>
+              </Card>
+            )}
+
+            {!ensembleMode && (prediction || isProcessing) && (
               <PredictionVisualization
                 prediction={prediction}
                 isProcessing={isProcessing}
-                modelName={selectedModel}
+                modelName={prediction && lastRun ? lastRun.model : selectedModel}
+                input={lastRun?.input}
+                warnings={lastRun ? checkConsistency(lastRun.input) : []}
+                shareUrl={lastRun ? deepLinkUrl(lastRun) : undefined}
               />
             )}
+
+            {!ensembleMode && prediction && lastRun && !isProcessing && (
+              <>
+                <DerivedQuantitiesPanel input={lastRun.input} />
+                <OrbitalDiagram input={lastRun.input} />
+                <SensitivitySweep
+                  key={prediction.predictionId ?? JSON.stringify(lastRun)}
+                  input={lastRun.input}
+                  model={lastRun.model}
+                  baseline={prediction}
+                />
+                <MonteCarloPanel
+                  key={`mc-${prediction.predictionId ?? JSON.stringify(lastRun)}`}
+                  input={lastRun.input}
+                  model={lastRun.model}
+                  baseline={prediction}
+                  uncertainties={lastRun.uncertainties}
+                />
+              </>
+            )}
           </div>
         </div>
       </div>
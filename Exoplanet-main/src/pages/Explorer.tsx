@@ -17,40 +17,68 @@ import {
   Cell,
   Legend
 } from 'recharts';
-import { TrendingUp, PieChart as PieChartIcon, BarChart3, Upload } from 'lucide-react';
+import { TrendingUp, PieChart as PieChartIcon, BarChart3, Upload, Play, Download, Square } from 'lucide-react';
 import { apiService } from '../services/api';
+import { NetworkError, CancelledError, describeError } from '../services/errors';
+import { AdvancedField, CoreFeature, DerivedQuantities, ModelType, NumericInputField } from '../types';
+import { models, classColors } from '../data/models';
+import { advancedFeatureColumns, backendModelNames, featureColumns, predictionInputFromRow } from '../utils/prediction';
+import { mapWithConcurrency } from '../utils/batch';
+import { deriveQuantities } from '../utils/astrophysics';
+import { indexUploadedRows } from '../utils/catalog';
+import { getSettings } from '../utils/settings';
+import { formatInUnits, fromCanonical, unitFor } from '../utils/units';
+import { downloadFile, parseCsv, toCsv } from '../utils/csv';
 
-const DEFAULT_COLORS = {
-  confirmed: '#22c55e',
-  candidate: '#06b6d4',
-  false_positive: '#ef4444',
-  unknown: '#f59e0b'
-};
+// Requests kept in flight at once during batch classification
+const BATCH_CONCURRENCY = 4;
+
+const DEFAULT_COLORS = classColors;
+
+// Computed preview columns; solar values stand in for missing koi_srad / koi_smass / koi_steff.
+// Columns with a `field` are shown in that field's preferred unit
+const DERIVED_COLUMNS: Array<{ header: string; field?: NumericInputField; value: (d: DerivedQuantities) => number }> = [
+  { header: 'a (AU)', value: (d) => d.semiMajorAxisAu },
+  { header: 'S (S⊕)', value: (d) => d.insolation },
+  { header: 'Rp/R*', value: (d) => d.radiusRatio },
+  { header: 'Central T14', field: 'transitDuration', value: (d) => d.centralDurationHours }
+];
+
+// Uploaded koi_* columns that hold a value with a unit, which the preview converts to the preferred unit
+const unitColumns = new Map<string, NumericInputField>(
+  [
+    ...(Object.entries(featureColumns) as Array<[CoreFeature, string]>),
+    ...(Object.entries(advancedFeatureColumns) as Array<[AdvancedField, string]>)
+  ]
+    .filter((entry): entry is [NumericInputField, string] => unitFor(entry[0] as NumericInputField) !== null)
+    .map(([field, column]) => [column, field])
+);
+
+// Period histogram edges in days (canonical); labels follow the preferred unit
+const PERIOD_BIN_EDGES = [0, 10, 50, 100, 200];
 
 export function Explorer() {
   const [activeChart, setActiveChart] = useState<'scatter' | 'distribution' | 'missions' | 'orbital'>('scatter');
   const [customRows, setCustomRows] = useState<Array<Record<string, string | number>>>([]);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const [avgConfidence, setAvgConfidence] = useState<number | null>(null);
+  const [batchModel, setBatchModel] = useState<ModelType>('Kepler');
+  const [isClassifying, setIsClassifying] = useState(false);
+  const [batchProgress, setBatchProgress] = useState<{ done: number; total: number; failed: number } | null>(null);
+  const [batchError, setBatchError] = useState<string | null>(null);
+  // Rows of the upload that the Dashboard's target lookup can find
+  const [indexedCount, setIndexedCount] = useState<number | null>(null);
+  const batchAbortRef = useRef<AbortController | null>(null);
+  const [units] = useState(() => getSettings().preferredUnits);
 
   const handlePickFile = () => fileInputRef.current?.click();
 
   const handleFile = async (file: File) => {
-    const text = await file.text();
-    const lines = text.split(/\r?\n/).filter(Boolean);
-    if (lines.length < 2) return setCustomRows([]);
-    const headers = lines[0].split(',').map((h) => h.trim());
-    const rows = lines.slice(1).map((line) => {
-      const cells = line.split(',');
-      const obj: Record<string, string | number> = {};
-      headers.forEach((h, i) => {
-        const raw = (cells[i] ?? '').trim();
-        const num = Number(raw);
-        obj[h] = raw !== '' && !Number.isNaN(num) ? num : raw;
-      });
-      return obj;
-    });
+    // Quote-aware, so cells like kepler_name comments with commas stay in one column
+    const rows = parseCsv(await file.text());
     setCustomRows(rows);
+    setBatchProgress(null);
+    setIndexedCount(indexUploadedRows(file.name, rows));
   };
 
   const handleDrop: React.DragEventHandler<HTMLDivElement> = async (e) => {
@@ -64,23 +92,87 @@ export function Explorer() {
     if (file) await handleFile(file);
   };
 
+  // Runs every row through the selected backend model, a few requests at a time,
+  // and writes predicted_status/confidence next to the original status column
+  const handleClassifyAll = async () => {
+    if (customRows.length === 0) return;
+    const controller = new AbortController();
+    batchAbortRef.current = controller;
+    setIsClassifying(true);
+    setBatchError(null);
+    const total = customRows.length;
+    let done = 0;
+    let failed = 0;
+    setBatchProgress({ done, total, failed });
+
+    const classifyRow = async (row: Record<string, string | number>, i: number) => {
+      const input = predictionInputFromRow(row);
+      let predicted: { predicted_status: string; confidence: number | string };
+
+      if (!input) {
+        predicted = { predicted_status: 'skipped', confidence: '' };
+        failed += 1;
+      } else {
+        try {
+          const result = await apiService.predict(input, backendModelNames[batchModel], { signal: controller.signal });
+          predicted = { predicted_status: result.status, confidence: Math.round(result.confidence * 1000) / 1000 };
+        } catch (error) {
+          // No point sending the remaining rows to a backend that isn't there
+          if (error instanceof NetworkError || error instanceof CancelledError) throw error;
+          console.error(`Batch prediction failed for row ${i + 1}:`, error);
+          predicted = { predicted_status: 'error', confidence: '' };
+          failed += 1;
+        }
+      }
+
+      done += 1;
+      setCustomRows((prev) => prev.map((r, j) => (j === i ? { ...r, ...predicted } : r)));
+      setBatchProgress({ done, total, failed });
+    };
+
+    try {
+      await mapWithConcurrency(customRows, BATCH_CONCURRENCY, classifyRow, controller.signal);
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        setBatchError(`Cancelled after ${done} of ${total} rows.`);
+      } else {
+        setBatchError(`${describeError(error).message}. Stopped after ${done} of ${total} rows.`);
+      }
+    }
+
+    batchAbortRef.current = null;
+    setIsClassifying(false);
+  };
+
+  const handleCancelBatch = () => batchAbortRef.current?.abort();
+
+  const handleExportClassified = () => {
+    const csv = toCsv([tableHeaders, ...customRows.map((row) => tableHeaders.map((h) => row[h] ?? ''))]);
+    downloadFile(csv, 'text/csv', `classified-${batchModel.toLowerCase()}-${Date.now()}.csv`);
+  };
+
   // Fetch average confidence from backend prediction history
   useEffect(() => {
+    const controller = new AbortController();
     (async () => {
       try {
-        const history = await apiService.getPredictionHistory();
+        const history = await apiService.getPredictionHistory({ signal: controller.signal });
         if (history.length === 0) {
           setAvgConfidence(null);
           return;
         }
         const mean = history.reduce((sum, h) => sum + (h.confidence ?? 0), 0) / history.length;
         setAvgConfidence(mean);
-      } catch (e) {
-        setAvgConfidence(null);
+      } catch {
+        if (!controller.signal.aborted) setAvgConfidence(null);
       }
     })();
+    return () => controller.abort();
   }, []);
 
+  // Stop a running batch when leaving the page
+  useEffect(() => () => batchAbortRef.current?.abort(), []);
+
   // Derived data and stats
   const usingUploaded = customRows.length > 0;
   const requiredCols = ['koi_model_snr','koi_depth','koi_prad','koi_teq','koi_duration','koi_period','status'];
@@ -100,11 +192,11 @@ export function Explorer() {
     return customRows
       .filter((r) => r.koi_prad != null && r.koi_teq != null)
       .map((r) => ({
-        radius: Number(r.koi_prad),
-        temperature: Number(r.koi_teq),
+        radius: fromCanonical('planetRadius', Number(r.koi_prad), units),
+        temperature: fromCanonical('planetTemperature', Number(r.koi_teq), units),
         status: String(r.status ?? 'unknown').toLowerCase()
       }));
-  }, [customRows, usingUploaded]);
+  }, [customRows, usingUploaded, units]);
 
   const distributionData = useMemo(() => {
     if (!usingUploaded) return [] as Array<{ name: string; value: number; color: string }>;
@@ -118,13 +210,12 @@ export function Explorer() {
 
   const orbitalData = useMemo(() => {
     if (!usingUploaded) return [] as Array<{ range: string; count: number }>;
-    const bins = [
-      { label: '0-10d', min: 0, max: 10 },
-      { label: '10-50d', min: 10, max: 50 },
-      { label: '50-100d', min: 50, max: 100 },
-      { label: '100-200d', min: 100, max: 200 },
-      { label: '200+d', min: 200, max: Infinity }
-    ];
+    const unit = unitFor('orbitalPeriod', units)?.label ?? '';
+    const shown = (days: number) => fromCanonical('orbitalPeriod', days, units).toLocaleString();
+    const bins = PERIOD_BIN_EDGES.map((min, i) => {
+      const max = PERIOD_BIN_EDGES[i + 1] ?? Infinity;
+      return { label: max === Infinity ? `${shown(min)}+ ${unit}` : `${shown(min)}-${shown(max)} ${unit}`, min, max };
+    });
     const counts = bins.map((b) => ({ range: b.label, count: 0 }));
     for (const r of customRows) {
       const val = Number(r.koi_period);
@@ -134,7 +225,7 @@ export function Explorer() {
       }
     }
     return counts;
-  }, [customRows, usingUploaded]);
+  }, [customRows, usingUploaded, units]);
 
   const summaryStats = useMemo(() => {
     const getNum = (k: string) => customRows.map((r) => Number(r[k])).filter((x) => Number.isFinite(x));
@@ -156,6 +247,23 @@ export function Explorer() {
     };
   }, [customRows]);
 
+  // Agreement between the uploaded label and the model output ('confirmed' counts as candidate)
+  const batchAgreement = useMemo(() => {
+    const classified = customRows.filter(
+      (r) => r.predicted_status === 'candidate' || r.predicted_status === 'false_positive' || r.predicted_status === 'unknown'
+    );
+    const matches = classified.filter((r) => {
+      const label = String(r.status ?? '').toLowerCase();
+      const expected = label === 'confirmed' ? 'candidate' : label;
+      return expected === r.predicted_status;
+    }).length;
+    return { classified: classified.length, matches };
+  }, [customRows]);
+
+  const tableHeaders = customRows.length > 0
+    ? Array.from(new Set(customRows.flatMap((r) => Object.keys(r))))
+    : [];
+
   return (
     <div className="min-h-screen pt-24 pb-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-7xl mx-auto">
@@ -206,17 +314,17 @@ export function Explorer() {
                       type="number"
                       dataKey="temperature"
                       name="Temperature"
-                      unit="K"
+                      unit={unitFor('planetTemperature', units)?.label}
                       stroke="#9ca3af"
-                      label={{ value: 'Planet Temperature (K)', position: 'bottom', offset: 40, fill: '#9ca3af' }}
+                      label={{ value: `Planet Temperature (${unitFor('planetTemperature', units)?.label})`, position: 'bottom', offset: 40, fill: '#9ca3af' }}
                     />
                     <YAxis
                       type="number"
                       dataKey="radius"
                       name="Radius"
-                      unit="R⊕"
+                      unit={unitFor('planetRadius', units)?.label}
                       stroke="#9ca3af"
-                      label={{ value: 'Planet Radius (Earth Radii)', angle: -90, position: 'left', offset: 40, fill: '#9ca3af' }}
+                      label={{ value: `Planet Radius (${unitFor('planetRadius', units)?.label})`, angle: -90, position: 'left', offset: 40, fill: '#9ca3af' }}
                     />
                     <Tooltip
                       contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151', borderRadius: '8px' }}
@@ -345,6 +453,76 @@ export function Explorer() {
             </div>
           </Card>
 
+          {customRows.length > 0 && (
+            <Card className="p-6 mt-6">
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                <div>
+                  <h4 className="text-white font-semibold">Batch Classification</h4>
+                  <p className="text-gray-400 text-sm">
+                    Run every row's koi_* features through a mission model and compare with the uploaded status.
+                  </p>
+                </div>
+                <div className="flex flex-wrap items-center gap-3">
+                  <select
+                    value={batchModel}
+                    onChange={(e) => setBatchModel(e.target.value as ModelType)}
+                    disabled={isClassifying}
+                    className="px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  >
+                    {Object.values(models).map((m) => (
+                      <option key={m.name} value={m.name}>{m.name} model</option>
+                    ))}
+                  </select>
+                  {isClassifying ? (
+                    <Button size="sm" variant="secondary" onClick={handleCancelBatch}>
+                      <Square className="w-4 h-4 mr-2 inline" />
+                      Cancel
+                    </Button>
+                  ) : (
+                    <Button size="sm" onClick={handleClassifyAll}>
+                      <Play className="w-4 h-4 mr-2 inline" />
+                      Classify all rows
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleExportClassified}
+                    disabled={isClassifying || batchAgreement.classified === 0}
+                  >
+                    <Download className="w-4 h-4 mr-2 inline" />
+                    Export CSV
+                  </Button>
+                </div>
+              </div>
+
+              {batchProgress && (
+                <div className="mt-4">
+                  <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-gradient-to-r from-cyan-500 to-blue-600 transition-all"
+                      style={{ width: `${(batchProgress.done / batchProgress.total) * 100}%` }}
+                    />
+                  </div>
+                  <div className="flex justify-between text-xs text-gray-400 mt-2">
+                    <span>
+                      {batchProgress.done.toLocaleString()} / {batchProgress.total.toLocaleString()} rows
+                      {batchProgress.failed > 0 && (
+                        <span className="text-red-400 ml-2">({batchProgress.failed} skipped or failed)</span>
+                      )}
+                    </span>
+                    {batchError && <span className="text-red-400">{batchError}</span>}
+                    {batchAgreement.classified > 0 && (
+                      <span>
+                        Agrees with label: <span className="text-cyan-400">{batchAgreement.matches}</span> / {batchAgreement.classified}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              )}
+            </Card>
+          )}
+
           {customRows.length > 0 && (
             <Card className="p-6 mt-6">
               <div className="flex items-center justify-between mb-4">
@@ -360,23 +538,63 @@ export function Explorer() {
                 <table className="min-w-full text-sm">
                   <thead className="bg-gray-900 sticky top-0">
                     <tr>
-                      {Object.keys(customRows[0]).map((h) => (
-                        <th key={h} className="text-left text-gray-400 font-medium px-3 py-2 border-b border-gray-800">{h}</th>
+                      {tableHeaders.map((h) => {
+                        const field = unitColumns.get(h);
+                        return (
+                          <th key={h} className="text-left text-gray-400 font-medium px-3 py-2 border-b border-gray-800 whitespace-nowrap">
+                            {field ? `${h} (${unitFor(field, units)?.label})` : h}
+                          </th>
+                        );
+                      })}
+                      {DERIVED_COLUMNS.map((c) => (
+                        <th key={c.header} className="text-left text-cyan-400/80 font-medium px-3 py-2 border-b border-gray-800 whitespace-nowrap">
+                          {c.field ? `${c.header} (${unitFor(c.field, units)?.label})` : c.header}
+                        </th>
                       ))}
                     </tr>
                   </thead>
                   <tbody>
-                    {customRows.slice(0, 50).map((row, i) => (
-                      <tr key={i} className={i % 2 ? 'bg-gray-900/30' : ''}>
-                        {Object.values(row).map((v, j) => (
-                          <td key={j} className="px-3 py-2 text-gray-300 border-b border-gray-900/40">{String(v)}</td>
-                        ))}
-                      </tr>
-                    ))}
+                    {customRows.slice(0, 50).map((row, i) => {
+                      const input = predictionInputFromRow(row);
+                      const derived = input ? deriveQuantities(input) : null;
+                      return (
+                        <tr key={i} className={i % 2 ? 'bg-gray-900/30' : ''}>
+                          {tableHeaders.map((h) => {
+                            const field = unitColumns.get(h);
+                            const cell = row[h];
+                            return (
+                              <td key={h} className="px-3 py-2 text-gray-300 border-b border-gray-900/40">
+                                {field && typeof cell === 'number' ? fromCanonical(field, cell, units) : String(cell ?? '')}
+                              </td>
+                            );
+                          })}
+                          {DERIVED_COLUMNS.map((c) => {
+                            const raw = derived ? c.value(derived) : NaN;
+                            const value = c.field && Number.isFinite(raw) ? fromCanonical(c.field, raw, units) : raw;
+                            return (
+                              <td key={c.header} className="px-3 py-2 text-cyan-300 border-b border-gray-900/40">
+                                {Number.isFinite(value) ? Number(value.toPrecision(3)) : '—'}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      );
+                    })}
                   </tbody>
                 </table>
               </div>
-              <p className="text-gray-500 text-xs mt-2">Showing first 50 rows.</p>
+              {indexedCount !== null && (
+                <p className="text-gray-400 text-xs mt-2">
+                  {indexedCount > 0
+                    ? `${indexedCount.toLocaleString()} rows with all six koi_* columns can now be looked up from the Dashboard.`
+                    : 'No rows have all six koi_* columns, so none can be looked up from the Dashboard.'}
+                </p>
+              )}
+              <p className="text-gray-500 text-xs mt-2">
+                Showing first 50 rows. koi_* columns with a unit are shown in your preferred units (Settings); other
+                columns are shown as uploaded. Highlighted columns are derived from the koi_* values, using solar values
+                for any missing stellar parameters.
+              </p>
               <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mt-4">
                 <div className="p-3 bg-gray-900/50 rounded">
                   <p className="text-gray-400 text-xs mb-1">Avg SNR (koi_model_snr)</p>
@@ -384,11 +602,11 @@ export function Explorer() {
                 </div>
                 <div className="p-3 bg-gray-900/50 rounded">
                   <p className="text-gray-400 text-xs mb-1">Median Depth (koi_depth)</p>
-                  <p className="text-cyan-400 text-lg font-semibold">{summaryStats.depthMedian.toFixed(2)}</p>
+                  <p className="text-cyan-400 text-lg font-semibold">{formatInUnits('transitDepth', summaryStats.depthMedian, units, 4)}</p>
                 </div>
                 <div className="p-3 bg-gray-900/50 rounded">
-                  <p className="text-gray-400 text-xs mb-1">Avg Period (koi_period, days)</p>
-                  <p className="text-cyan-400 text-lg font-semibold">{summaryStats.periodMean.toFixed(2)}</p>
+                  <p className="text-gray-400 text-xs mb-1">Avg Period (koi_period)</p>
+                  <p className="text-cyan-400 text-lg font-semibold">{formatInUnits('orbitalPeriod', summaryStats.periodMean, units, 4)}</p>
                 </div>
               </div>
             </Card>
@@ -1,54 +1,121 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { motion } from 'framer-motion';
+import { Link } from 'react-router-dom';
 import { Card } from '../components/ui/Card';
 import { Button } from '../components/ui/Button';
-import { Prediction } from '../types';
+import { HistoryLocation, SyncedPrediction } from '../types';
 import { getPredictions, clearPredictions } from '../utils/storage';
-import { Download, Trash2, Filter, CheckCircle2, XCircle, AlertCircle } from 'lucide-react';
+import { mergeHistory, pushLocalOnly } from '../utils/sync';
+import { getSettings } from '../utils/settings';
+import { formatInUnits } from '../utils/units';
+import { downloadFile, toCsv } from '../utils/csv';
+import { apiService } from '../services/api';
+import { CancelledError, describeError, isRecoverable } from '../services/errors';
+import { SourceBadge } from '../components/dashboard/SourceBadge';
+import { DerivedQuantitiesPanel } from '../components/dashboard/DerivedQuantitiesPanel';
+import { ComparisonView } from '../components/history/ComparisonView';
+import { Download, Trash2, Filter, CheckCircle2, XCircle, AlertCircle, RefreshCw, HardDrive, Cloud, CloudOff, AlertTriangle, ChevronDown, ExternalLink, GitCompare } from 'lucide-react';
+
+type SyncState =
+  | { kind: 'syncing' }
+  | { kind: 'synced'; pushed: number }
+  | { kind: 'offline' }
+  | { kind: 'failed'; message: string };
+
+const locationConfig: Record<HistoryLocation, { label: string; icon: typeof Cloud; className: string }> = {
+  local: { label: 'This browser', icon: HardDrive, className: 'bg-gray-700/40 text-gray-300' },
+  server: { label: 'Server', icon: Cloud, className: 'bg-violet-500/20 text-violet-300' },
+  both: { label: 'Synced', icon: Cloud, className: 'bg-green-500/20 text-green-400' }
+};
+
+// How many entries the comparison view takes
+const MIN_COMPARED = 2;
+const MAX_COMPARED = 6;
 
 export function History() {
-  const [predictions, setPredictions] = useState<Prediction[]>([]);
+  const [predictions, setPredictions] = useState<SyncedPrediction[]>([]);
   const [filter, setFilter] = useState<'all' | 'candidate' | 'false_positive' | 'unknown'>('all');
   const [sortBy, setSortBy] = useState<'newest' | 'oldest' | 'confidence'>('newest');
+  const [sync, setSync] = useState<SyncState>({ kind: 'syncing' });
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  // Ids ticked for comparison, in the order they were ticked
+  const [selected, setSelected] = useState<string[]>([]);
+  const [comparing, setComparing] = useState(false);
+  const [units] = useState(() => getSettings().preferredUnits);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const loadPredictions = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    // Show local entries straight away; the backend may take a while or be down
+    setPredictions(mergeHistory(getPredictions(), []));
+    setSync({ kind: 'syncing' });
+
+    try {
+      let remote = await apiService.getPredictionHistory({ signal: controller.signal });
+      const pushed = await pushLocalOnly(mergeHistory(getPredictions(), remote), controller.signal);
+      if (pushed > 0) {
+        remote = await apiService.getPredictionHistory({ signal: controller.signal });
+      }
+      setPredictions(mergeHistory(getPredictions(), remote));
+      setSync({ kind: 'synced', pushed });
+    } catch (err) {
+      if (err instanceof CancelledError || controller.signal.aborted) return;
+      // Entries pushed before the failure already carry their backend id
+      setPredictions(mergeHistory(getPredictions(), []));
+      setSync(isRecoverable(err) ? { kind: 'offline' } : { kind: 'failed', message: describeError(err).message });
+    }
+  }, []);
 
   useEffect(() => {
     loadPredictions();
-  }, []);
+    return () => abortRef.current?.abort();
+  }, [loadPredictions]);
+
+  const toggleExpanded = (id: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
 
-  const loadPredictions = () => {
-    const data = getPredictions();
-    setPredictions(data);
+  const toggleSelected = (id: string) => {
+    setSelected((prev) => (prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]));
+  };
+
+  const clearSelection = () => {
+    setSelected([]);
+    setComparing(false);
   };
 
   const handleClear = () => {
-    if (window.confirm('Are you sure you want to clear all prediction history?')) {
+    if (window.confirm('Clear the prediction history stored in this browser? Entries on the server are kept.')) {
       clearPredictions();
       loadPredictions();
     }
   };
 
   const handleExport = () => {
-    const csv = [
-      ['Timestamp', 'Model', 'Result', 'Confidence', 'Signal/Noise', 'Transit Depth', 'Orbital Period'].join(','),
-      ...filteredPredictions.map((p) =>
-        [
-          new Date(p.timestamp).toLocaleString(),
-          p.modelName,
-          p.result.status,
-          p.result.confidence,
-          p.input.signalToNoise,
-          p.input.transitDepth,
-          p.input.orbitalPeriod
-        ].join(',')
-      )
-    ].join('\n');
-
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `astrokit-predictions-${Date.now()}.csv`;
-    a.click();
+    const csv = toCsv([
+      ['Timestamp', 'Model', 'Source', 'Stored', 'Result', 'Confidence', 'Signal/Noise', 'Transit Depth', 'Orbital Period', 'Input Warnings'],
+      ...filteredPredictions.map((p) => [
+        new Date(p.timestamp).toLocaleString(),
+        p.modelName,
+        p.result.source ?? 'unknown',
+        p.location,
+        p.result.status,
+        p.result.confidence,
+        p.input.signalToNoise,
+        p.input.transitDepth,
+        p.input.orbitalPeriod,
+        p.warnings?.length ?? 0
+      ])
+    ]);
+    downloadFile(csv, 'text/csv', `astrokit-predictions-${Date.now()}.csv`);
   };
 
   const filteredPredictions = predictions
@@ -63,6 +130,12 @@ export function History() {
       }
     });
 
+  // Entries can disappear from under the selection when local history is cleared
+  const compared = selected
+    .map((id) => predictions.find((p) => p.id === id))
+    .filter((p): p is SyncedPrediction => p !== undefined);
+  const canCompare = compared.length >= MIN_COMPARED && compared.length <= MAX_COMPARED;
+
   const statusIcons = {
     candidate: { icon: CheckCircle2, color: 'text-green-400', bg: 'bg-green-500/10' },
     false_positive: { icon: XCircle, color: 'text-red-400', bg: 'bg-red-500/10' },
@@ -115,19 +188,69 @@ export function History() {
                 <option value="confidence">Highest Confidence</option>
               </select>
 
+              <Button variant="outline" size="sm" onClick={loadPredictions} disabled={sync.kind === 'syncing'}>
+                <RefreshCw className={`w-4 h-4 mr-2 ${sync.kind === 'syncing' ? 'animate-spin' : ''}`} />
+                Sync Now
+              </Button>
+
               <Button variant="outline" size="sm" onClick={handleExport} disabled={predictions.length === 0}>
                 <Download className="w-4 h-4 mr-2" />
                 Export CSV
               </Button>
 
-              <Button variant="outline" size="sm" onClick={handleClear} disabled={predictions.length === 0}>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleClear}
+                disabled={!predictions.some((p) => p.location !== 'server')}
+              >
                 <Trash2 className="w-4 h-4 mr-2" />
                 Clear All
               </Button>
             </div>
           </div>
+
+          <div className="mt-4 pt-4 border-t border-gray-800 flex items-center space-x-2 text-sm">
+            {sync.kind === 'syncing' && <span className="text-gray-400">Syncing with the backend…</span>}
+            {sync.kind === 'synced' && (
+              <span className="text-green-400">
+                In sync with the backend
+                {sync.pushed > 0 && ` — uploaded ${sync.pushed} ${sync.pushed === 1 ? 'entry' : 'entries'} from this browser`}
+              </span>
+            )}
+            {sync.kind === 'offline' && (
+              <span className="flex items-center text-yellow-400">
+                <CloudOff className="w-4 h-4 mr-2" />
+                Backend unreachable — showing history from this browser only
+              </span>
+            )}
+            {sync.kind === 'failed' && <span className="text-red-400">Sync failed: {sync.message}</span>}
+          </div>
+
+          <div className="mt-4 pt-4 border-t border-gray-800 flex flex-wrap items-center gap-3 text-sm">
+            <span className="text-gray-400">
+              {compared.length === 0
+                ? `Tick ${MIN_COMPARED}–${MAX_COMPARED} entries to compare them side by side`
+                : `${compared.length} of up to ${MAX_COMPARED} selected for comparison`}
+            </span>
+            {compared.length > 0 && (
+              <>
+                <Button size="sm" onClick={() => setComparing(true)} disabled={!canCompare}>
+                  <GitCompare className="w-4 h-4 mr-2" />
+                  Compare
+                </Button>
+                <Button variant="outline" size="sm" onClick={clearSelection}>
+                  Clear Selection
+                </Button>
+              </>
+            )}
+          </div>
         </Card>
 
+        {comparing && canCompare && (
+          <ComparisonView entries={compared} units={units} onClose={() => setComparing(false)} />
+        )}
+
         {filteredPredictions.length === 0 ? (
           <Card className="p-12 text-center">
             <div className="text-6xl mb-4">🔭</div>
@@ -143,6 +266,14 @@ export function History() {
             {filteredPredictions.map((prediction, idx) => {
               const config = statusIcons[prediction.result.status];
               const Icon = config.icon;
+              const location = locationConfig[prediction.location];
+              const LocationIcon = location.icon;
+              // Entries synced from older backends may lack some of the core inputs
+              const canDerive = [prediction.input.orbitalPeriod, prediction.input.transitDepth].every(
+                (v) => typeof v === 'number'
+              );
+              const isExpanded = expanded.has(prediction.id);
+              const isSelected = selected.includes(prediction.id);
 
               return (
                 <motion.div
@@ -154,6 +285,19 @@ export function History() {
                   <Card className="p-6 hover:border-cyan-500/40 transition-all" hover>
                     <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-4 lg:space-y-0">
                       <div className="flex items-start space-x-4">
+                        <input
+                          type="checkbox"
+                          checked={isSelected}
+                          onChange={() => toggleSelected(prediction.id)}
+                          disabled={!isSelected && compared.length >= MAX_COMPARED}
+                          aria-label="Select for comparison"
+                          title={
+                            !isSelected && compared.length >= MAX_COMPARED
+                              ? `At most ${MAX_COMPARED} entries can be compared`
+                              : 'Select for comparison'
+                          }
+                          className="mt-4 w-4 h-4 accent-cyan-500"
+                        />
                         <div className={`p-3 rounded-lg ${config.bg}`}>
                           <Icon className={`w-6 h-6 ${config.color}`} />
                         </div>
@@ -166,6 +310,20 @@ export function History() {
                             <span className="px-3 py-1 bg-cyan-500/20 text-cyan-400 rounded-full text-sm font-semibold">
                               {prediction.modelName}
                             </span>
+                            <SourceBadge source={prediction.result.source} size="sm" />
+                            {prediction.warnings && prediction.warnings.length > 0 && (
+                              <span
+                                className="inline-flex items-center px-2 py-0.5 rounded-full text-xs bg-yellow-500/20 text-yellow-400"
+                                title={prediction.warnings.map((w) => w.message).join('\n')}
+                              >
+                                <AlertTriangle className="w-3 h-3 mr-1" />
+                                {prediction.warnings.length} input {prediction.warnings.length === 1 ? 'warning' : 'warnings'}
+                              </span>
+                            )}
+                            <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs ${location.className}`}>
+                              <LocationIcon className="w-3 h-3 mr-1" />
+                              {location.label}
+                            </span>
                           </div>
 
                           <p className="text-gray-400 text-sm mb-3">
@@ -182,16 +340,36 @@ export function History() {
                             <div>
                               <p className="text-xs text-gray-500">Orbital Period</p>
                               <p className="text-sm font-semibold text-white">
-                                {prediction.input.orbitalPeriod?.toFixed?.(1) ?? '—'} days
+                                {formatInUnits('orbitalPeriod', prediction.input.orbitalPeriod, units)}
                               </p>
                             </div>
                             <div>
                               <p className="text-xs text-gray-500">Planet Radius</p>
                               <p className="text-sm font-semibold text-white">
-                                {prediction.input.planetRadius?.toFixed?.(1) ?? '—'} R⊕
+                                {formatInUnits('planetRadius', prediction.input.planetRadius, units)}
                               </p>
                             </div>
                           </div>
+
+                          <div className="mt-3 flex items-center space-x-4 text-xs">
+                            <Link
+                              to={`/history/${encodeURIComponent(prediction.id)}`}
+                              className="flex items-center text-cyan-400 hover:text-cyan-300 transition-colors"
+                            >
+                              <ExternalLink className="w-3.5 h-3.5 mr-1" />
+                              Open
+                            </Link>
+                            {canDerive && (
+                              <button
+                                type="button"
+                                onClick={() => toggleExpanded(prediction.id)}
+                                className="flex items-center text-cyan-400 hover:text-cyan-300 transition-colors"
+                              >
+                                <ChevronDown className={`w-3.5 h-3.5 mr-1 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+                                Derived quantities
+                              </button>
+                            )}
+                          </div>
                         </div>
                       </div>
 
@@ -202,6 +380,12 @@ export function History() {
                         </p>
                       </div>
                     </div>
+
+                    {canDerive && isExpanded && (
+                      <div className="mt-4 pt-4 border-t border-gray-800">
+                        <DerivedQuantitiesPanel input={prediction.input} compact />
+                      </div>
+                    )}
                   </Card>
                 </motion.div>
               );
@@ -0,0 +1,166 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { PredictionVisualization } from '../components/dashboard/PredictionVisualization';
+import { DerivedQuantitiesPanel } from '../components/dashboard/DerivedQuantitiesPanel';
+import { ModelType, NumericInputField, Prediction } from '../types';
+import { models } from '../data/models';
+import { inputFieldInfo, flagFieldInfo } from '../data/inputFields';
+import { SERVER_ID_PREFIX, findStoredPrediction } from '../utils/sync';
+import { getSettings } from '../utils/settings';
+import { formatInUnits, unitFor } from '../utils/units';
+import { deepLinkUrl, encodeDeepLink, historyEntryUrl } from '../utils/deepLink';
+import { CancelledError, describeError } from '../services/errors';
+import { ArrowLeft, Play, Printer, Loader2 } from 'lucide-react';
+
+type LookupState =
+  | { kind: 'loading' }
+  | { kind: 'found'; prediction: Prediction }
+  | { kind: 'missing'; reason: string };
+
+export function HistoryEntry() {
+  const { id = '' } = useParams();
+  const [state, setState] = useState<LookupState>({ kind: 'loading' });
+  const [units] = useState(() => getSettings().preferredUnits);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setState({ kind: 'loading' });
+
+    findStoredPrediction(id, controller.signal)
+      .then((prediction) => {
+        setState(
+          prediction
+            ? { kind: 'found', prediction }
+            : {
+                kind: 'missing',
+                reason: id.startsWith(SERVER_ID_PREFIX)
+                  ? 'The backend has no history entry with this id. It only lists its 50 most recent predictions.'
+                  : 'This prediction was stored in another browser. Ask for a link to the synced entry instead.'
+              }
+        );
+      })
+      .catch((error) => {
+        if (error instanceof CancelledError || controller.signal.aborted) return;
+        setState({ kind: 'missing', reason: describeError(error).message });
+      });
+
+    return () => controller.abort();
+  }, [id]);
+
+  const prediction = state.kind === 'found' ? state.prediction : null;
+  const model = prediction && prediction.modelName in models ? (prediction.modelName as ModelType) : null;
+  // Synced entries get a link that works for anyone using the same backend
+  const shareUrl = prediction
+    ? prediction.result.predictionId !== undefined
+      ? historyEntryUrl(`${SERVER_ID_PREFIX}${prediction.result.predictionId}`)
+      : model
+        ? deepLinkUrl({ model, input: prediction.input })
+        : undefined
+    : undefined;
+  const hasCoreInputs = prediction
+    ? [prediction.input.orbitalPeriod, prediction.input.transitDepth].every((v) => typeof v === 'number')
+    : false;
+
+  return (
+    <div className="min-h-screen pt-24 pb-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-4xl mx-auto">
+        <Link to="/history" className="inline-flex items-center text-gray-400 hover:text-cyan-400 transition-colors mb-6">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to History
+        </Link>
+
+        <motion.div initial={{ opacity: 0, y: -20 }} animate={{ opacity: 1, y: 0 }} className="mb-8">
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-cyan-400 via-blue-500 to-violet-500 bg-clip-text text-transparent mb-2">
+            Stored Prediction
+          </h1>
+          {prediction && (
+            <p className="text-gray-400">
+              {prediction.modelName} · {new Date(prediction.timestamp).toLocaleString()}
+            </p>
+          )}
+        </motion.div>
+
+        {state.kind === 'loading' && (
+          <Card className="p-12 flex items-center justify-center text-gray-400">
+            <Loader2 className="w-5 h-5 mr-3 animate-spin" />
+            Looking up prediction...
+          </Card>
+        )}
+
+        {state.kind === 'missing' && (
+          <Card className="p-12 text-center">
+            <div className="text-6xl mb-4">🔭</div>
+            <h3 className="text-2xl font-bold text-white mb-2">Prediction Not Found</h3>
+            <p className="text-gray-400">{state.reason}</p>
+          </Card>
+        )}
+
+        {prediction && (
+          <div className="space-y-8">
+            <PredictionVisualization
+              prediction={prediction.result}
+              isProcessing={false}
+              modelName={prediction.modelName}
+              input={prediction.input}
+              warnings={prediction.warnings}
+              shareUrl={shareUrl}
+              stored
+            />
+
+            <Card className="p-8">
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-2xl font-bold text-white">Inputs</h3>
+                <div className="flex gap-2">
+                  <Link to={`/report/${encodeURIComponent(id)}`}>
+                    <Button variant="outline" size="sm">
+                      <Printer className="w-4 h-4 mr-2" />
+                      Printable Report
+                    </Button>
+                  </Link>
+                  {model && (
+                    <Link to={`/?${encodeDeepLink({ model, input: prediction.input })}`}>
+                      <Button variant="outline" size="sm">
+                        <Play className="w-4 h-4 mr-2" />
+                        Open in Dashboard
+                      </Button>
+                    </Link>
+                  )}
+                </div>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-8 gap-y-3">
+                {(Object.keys(inputFieldInfo) as NumericInputField[])
+                  .filter((f) => typeof prediction.input[f] === 'number')
+                  .map((f) => (
+                    <div key={f} className="flex justify-between border-b border-gray-800 pb-2 text-sm">
+                      <span className="text-gray-400">{inputFieldInfo[f].label}</span>
+                      <span className="font-mono text-white">
+                        {unitFor(f) ? formatInUnits(f, prediction.input[f], units, 6) : `${prediction.input[f]} ${inputFieldInfo[f].unit ?? ''}`}
+                        {prediction.inputUnits?.[f] && prediction.inputUnits[f] !== unitFor(f, units)?.id && (
+                          <span className="ml-2 text-xs text-gray-500">
+                            entered in {unitFor(f, prediction.inputUnits)?.label}
+                          </span>
+                        )}
+                      </span>
+                    </div>
+                  ))}
+                {(Object.keys(flagFieldInfo) as Array<keyof typeof flagFieldInfo>)
+                  .filter((f) => prediction.input[f] !== undefined)
+                  .map((f) => (
+                    <div key={f} className="flex justify-between border-b border-gray-800 pb-2 text-sm">
+                      <span className="text-gray-400">{flagFieldInfo[f].label}</span>
+                      <span className="font-mono text-white">{prediction.input[f] ? 'yes' : 'no'}</span>
+                    </div>
+                  ))}
+              </div>
+            </Card>
+
+            {hasCoreInputs && <DerivedQuantitiesPanel input={prediction.input} />}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
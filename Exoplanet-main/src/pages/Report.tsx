@@ -0,0 +1,263 @@
+import { useState, useEffect, ReactNode } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Button } from '../components/ui/Button';
+import { SourceBadge } from '../components/dashboard/SourceBadge';
+import { FeatureImportanceChart } from '../components/dashboard/FeatureImportanceChart';
+import { LightCurveChart } from '../components/dashboard/LightCurveChart';
+import { NumericInputField, Prediction, PredictionResult } from '../types';
+import { classColors, models, modelSpecifications } from '../data/models';
+import { inputFieldInfo, flagFieldInfo } from '../data/inputFields';
+import { findStoredPrediction } from '../utils/sync';
+import { getSettings } from '../utils/settings';
+import { formatInUnits, unitFor } from '../utils/units';
+import { CancelledError, describeError } from '../services/errors';
+import { ArrowLeft, Loader2, Printer } from 'lucide-react';
+
+type LookupState =
+  | { kind: 'loading' }
+  | { kind: 'found'; prediction: Prediction }
+  | { kind: 'missing'; reason: string };
+
+const verdicts: Record<PredictionResult['status'], string> = {
+  candidate: 'Confirmed Candidate',
+  false_positive: 'False Positive',
+  unknown: 'Requires Further Analysis'
+};
+
+interface SectionProps {
+  title: string;
+  children: ReactNode;
+}
+
+function Section({ title, children }: SectionProps) {
+  return (
+    <section className="mb-8 break-inside-avoid">
+      <h2 className="text-xl font-bold text-gray-900 border-b border-gray-300 pb-1 mb-3">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+/**
+ * One stored prediction laid out for printing or saving as PDF from the
+ * browser: light background, no navbar or starfield, nothing animated.
+ */
+export function Report() {
+  const { id = '' } = useParams();
+  const [state, setState] = useState<LookupState>({ kind: 'loading' });
+  const [units] = useState(() => getSettings().preferredUnits);
+  const [generatedAt] = useState(() => new Date());
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setState({ kind: 'loading' });
+
+    findStoredPrediction(id, controller.signal)
+      .then((prediction) => {
+        setState(
+          prediction
+            ? { kind: 'found', prediction }
+            : { kind: 'missing', reason: 'No stored prediction has this id in this browser or the backend history.' }
+        );
+      })
+      .catch((error) => {
+        if (error instanceof CancelledError || controller.signal.aborted) return;
+        setState({ kind: 'missing', reason: describeError(error).message });
+      });
+
+    return () => controller.abort();
+  }, [id]);
+
+  const prediction = state.kind === 'found' ? state.prediction : null;
+
+  // The title becomes the default file name when saving as PDF
+  useEffect(() => {
+    if (!prediction) return;
+    const previous = document.title;
+    document.title = `Exoplanet report ${prediction.modelName} ${prediction.timestamp.slice(0, 10)}`;
+    return () => {
+      document.title = previous;
+    };
+  }, [prediction]);
+
+  if (!prediction) {
+    return (
+      <div className="min-h-screen bg-white text-gray-900 flex flex-col items-center justify-center px-4">
+        {state.kind === 'loading' ? (
+          <p className="flex items-center text-gray-600">
+            <Loader2 className="w-5 h-5 mr-3 animate-spin" />
+            Looking up prediction...
+          </p>
+        ) : (
+          <>
+            <h1 className="text-2xl font-bold mb-2">Prediction Not Found</h1>
+            <p className="text-gray-600 mb-6">{state.kind === 'missing' && state.reason}</p>
+            <Link to="/history" className="text-cyan-700 hover:underline">
+              Back to History
+            </Link>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  const { input, result } = prediction;
+  const spec = modelSpecifications[prediction.modelName];
+  const info = models[prediction.modelName];
+  const numericFields = (Object.keys(inputFieldInfo) as NumericInputField[]).filter(
+    (f) => typeof input[f] === 'number'
+  );
+  const flagFields = (Object.keys(flagFieldInfo) as Array<keyof typeof flagFieldInfo>).filter(
+    (f) => input[f] !== undefined
+  );
+  const hasLightCurve = [input.transitDepth, input.transitDuration, input.orbitalPeriod].every(Number.isFinite);
+
+  return (
+    <div className="min-h-screen bg-white text-gray-900">
+      <div className="max-w-3xl mx-auto px-6 py-10 print:p-0">
+        <div className="flex items-center justify-between mb-8 print:hidden">
+          <Link
+            to={`/history/${encodeURIComponent(id)}`}
+            className="inline-flex items-center text-gray-600 hover:text-cyan-700 transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Prediction
+          </Link>
+          <Button size="sm" onClick={() => window.print()}>
+            <Printer className="w-4 h-4 mr-2" />
+            Print / Save as PDF
+          </Button>
+        </div>
+
+        <header className="mb-8">
+          <p className="text-sm uppercase tracking-wide text-gray-500">Exoplanet Candidate Report</p>
+          <h1 className="text-4xl font-bold mb-1" style={{ color: classColors[result.status] }}>
+            {verdicts[result.status]}
+          </h1>
+          <p className="text-lg text-gray-700">
+            {(result.confidence * 100).toFixed(1)}% confidence · {prediction.modelName} model
+          </p>
+        </header>
+
+        <Section title="Verdict">
+          <div className="mb-3">
+            <SourceBadge source={result.source} size="sm" />
+          </div>
+          {result.probabilities && (
+            <table className="w-full text-sm mb-3">
+              <tbody>
+                {Object.entries(result.probabilities)
+                  .sort((a, b) => b[1] - a[1])
+                  .map(([name, p]) => (
+                    <tr key={name} className="border-b border-gray-200">
+                      <td className="py-1 pr-4 w-40">
+                        {name.replace('_', ' ').replace(/\b\w/g, (l) => l.toUpperCase())}
+                      </td>
+                      <td className="py-1">
+                        <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                          <div
+                            className="h-full rounded-full"
+                            style={{ width: `${p * 100}%`, backgroundColor: classColors[name] ?? '#8b5cf6' }}
+                          />
+                        </div>
+                      </td>
+                      <td className="py-1 pl-4 w-16 text-right font-mono">{(p * 100).toFixed(1)}%</td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          )}
+          {result.explanation && <p className="text-sm text-gray-700 leading-relaxed">{result.explanation}</p>}
+        </Section>
+
+        {prediction.warnings && prediction.warnings.length > 0 && (
+          <Section title="Consistency Warnings">
+            <ul className="list-disc pl-5 text-sm text-gray-700 space-y-1">
+              {prediction.warnings.map((w) => (
+                <li key={`${w.field}-${w.message}`}>{w.message}</li>
+              ))}
+            </ul>
+          </Section>
+        )}
+
+        <Section title="Inputs">
+          <table className="w-full text-sm">
+            <tbody>
+              {numericFields.map((f) => (
+                <tr key={f} className="border-b border-gray-200">
+                  <td className="py-1 text-gray-600">{inputFieldInfo[f].label}</td>
+                  <td className="py-1 text-right font-mono">
+                    {unitFor(f) ? formatInUnits(f, input[f], units, 6) : `${input[f]} ${inputFieldInfo[f].unit ?? ''}`}
+                    {prediction.inputUnits?.[f] && prediction.inputUnits[f] !== unitFor(f, units)?.id && (
+                      <span className="ml-2 text-xs text-gray-500">(entered in {unitFor(f, prediction.inputUnits)?.label})</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {flagFields.map((f) => (
+                <tr key={f} className="border-b border-gray-200">
+                  <td className="py-1 text-gray-600">{flagFieldInfo[f].label}</td>
+                  <td className="py-1 text-right font-mono">{input[f] ? 'yes' : 'no'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Section>
+
+        <Section title="Model">
+          <p className="text-sm text-gray-700 mb-3">
+            <span className="font-semibold">{prediction.modelName}</span>
+            {info && ` · ${info.description} (${info.yearOfOperation})`}
+          </p>
+          {spec ? (
+            <>
+              <p className="text-sm text-gray-700 mb-3">
+                {spec.architecture}, trained on {spec.dataset.size} from {spec.dataset.source}.
+              </p>
+              <div className="grid grid-cols-4 gap-3 text-center">
+                {[
+                  { label: 'Accuracy', value: `${spec.metrics.accuracy}%` },
+                  { label: 'Precision', value: spec.metrics.precision.toFixed(2) },
+                  { label: 'Recall', value: spec.metrics.recall.toFixed(2) },
+                  { label: 'F1 Score', value: spec.metrics.f1Score.toFixed(2) }
+                ].map((m) => (
+                  <div key={m.label} className="p-2 border border-gray-300 rounded">
+                    <p className="text-xs text-gray-500">{m.label}</p>
+                    <p className="text-lg font-bold">{m.value}</p>
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-gray-500">No published metrics for this model.</p>
+          )}
+        </Section>
+
+        {result.featureImportance && result.featureImportance.length > 0 && (
+          <Section title="Feature Importance">
+            <FeatureImportanceChart importances={result.featureImportance} />
+          </Section>
+        )}
+
+        {hasLightCurve && (
+          <Section title="Implied Light Curve">
+            <p className="text-xs text-gray-500 mb-3">
+              A simulated signal with the entered depth, duration, period and signal-to-noise, on a limb-darkened
+              Sun-like star
+            </p>
+            <LightCurveChart input={input} />
+          </Section>
+        )}
+
+        <footer className="pt-4 border-t border-gray-300 text-xs text-gray-500 space-y-1">
+          <p>Predicted {new Date(prediction.timestamp).toLocaleString()} · report generated {generatedAt.toLocaleString()}</p>
+          <p>
+            Prediction id {prediction.id}
+            {result.predictionId !== undefined && ` · backend history entry ${result.predictionId}`}
+          </p>
+          <p>{window.location.href}</p>
+        </footer>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,297 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { AppSettings, ConnectionProfile, ModelType, NumericInputField } from '../types';
+import { apiService, HealthCheckResult } from '../services/api';
+import { getSettings, saveSettings, getActiveProfile } from '../utils/settings';
+import { loadForest } from '../utils/forest';
+import { models } from '../data/models';
+import { inputFieldInfo } from '../data/inputFields';
+import { fieldUnits, unitFor } from '../utils/units';
+import { Server, Plus, Trash2, Activity, CheckCircle2, XCircle, Loader2, WifiOff, Ruler } from 'lucide-react';
+
+export function Settings() {
+  const [settings, setSettings] = useState<AppSettings>(getSettings);
+  const [health, setHealth] = useState<Record<string, HealthCheckResult | 'checking'>>({});
+  const [forests, setForests] = useState<Partial<Record<ModelType, boolean>>>({});
+
+  const updateSettings = (next: AppSettings) => {
+    setSettings(next);
+    saveSettings(next);
+    apiService.setBaseUrl(getActiveProfile(next).baseUrl);
+  };
+
+  const updateProfile = (id: string, changes: Partial<ConnectionProfile>) => {
+    updateSettings({
+      ...settings,
+      profiles: settings.profiles.map((p) => (p.id === id ? { ...p, ...changes } : p))
+    });
+    setHealth((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  };
+
+  const addProfile = () => {
+    const profile: ConnectionProfile = {
+      id: crypto.randomUUID(),
+      name: `Profile ${settings.profiles.length + 1}`,
+      baseUrl: ''
+    };
+    updateSettings({ ...settings, profiles: [...settings.profiles, profile] });
+  };
+
+  const removeProfile = (id: string) => {
+    const profiles = settings.profiles.filter((p) => p.id !== id);
+    const activeProfileId = settings.activeProfileId === id ? profiles[0].id : settings.activeProfileId;
+    updateSettings({ ...settings, profiles, activeProfileId });
+  };
+
+  const testProfile = async (profile: ConnectionProfile) => {
+    if (!profile.baseUrl.trim()) return;
+    setHealth((prev) => ({ ...prev, [profile.id]: 'checking' }));
+    const result = await apiService.checkHealth(profile.baseUrl);
+    setHealth((prev) => ({ ...prev, [profile.id]: result }));
+  };
+
+  // Probe the active backend and look for bundled forest exports once when the page opens
+  useEffect(() => {
+    testProfile(getActiveProfile(getSettings()));
+    (Object.keys(models) as ModelType[]).forEach(async (model) => {
+      const forest = await loadForest(model);
+      setForests((prev) => ({ ...prev, [model]: forest !== null }));
+    });
+  }, []);
+
+  const active = getActiveProfile(settings);
+
+  return (
+    <div className="min-h-screen pt-24 pb-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-5xl mx-auto">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="text-center mb-12"
+        >
+          <h1 className="text-5xl font-bold bg-gradient-to-r from-cyan-400 via-blue-500 to-violet-500 bg-clip-text text-transparent mb-4">
+            Settings
+          </h1>
+          <p className="text-gray-400 text-lg max-w-3xl mx-auto">
+            Choose which prediction backend the app talks to and how it behaves when that backend is down
+          </p>
+        </motion.div>
+
+        <Card className="p-6">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6 gap-4">
+            <div className="flex items-center space-x-3">
+              <Server className="w-6 h-6 text-cyan-400" />
+              <div>
+                <h2 className="text-2xl font-bold text-white">Backend Connection</h2>
+                <p className="text-gray-400 text-sm">
+                  Active: <span className="text-cyan-400">{active.name}</span>{' '}
+                  <span className="font-mono text-gray-500">{active.baseUrl || 'no URL set'}</span>
+                </p>
+              </div>
+            </div>
+            <Button variant="outline" size="sm" onClick={addProfile}>
+              <Plus className="w-4 h-4 mr-2 inline" />
+              Add Profile
+            </Button>
+          </div>
+
+          <div className="space-y-4">
+            {settings.profiles.map((profile) => {
+              const state = health[profile.id];
+              const isActive = profile.id === active.id;
+
+              return (
+                <div
+                  key={profile.id}
+                  className={`p-4 rounded-lg border-2 transition-all ${
+                    isActive ? 'border-cyan-500 bg-cyan-500/10' : 'border-gray-700 bg-gray-800/30'
+                  }`}
+                >
+                  <div className="grid grid-cols-1 md:grid-cols-12 gap-3 items-center">
+                    <label className="md:col-span-1 flex items-center justify-center">
+                      <input
+                        type="radio"
+                        name="active-profile"
+                        checked={isActive}
+                        onChange={() => updateSettings({ ...settings, activeProfileId: profile.id })}
+                        disabled={!profile.baseUrl.trim()}
+                        title={profile.baseUrl.trim() ? undefined : 'Set a URL before using this profile'}
+                        className="w-4 h-4 accent-cyan-500 disabled:opacity-40"
+                      />
+                    </label>
+                    <div className="md:col-span-3">
+                      <Input
+                        value={profile.name}
+                        onChange={(e) => updateProfile(profile.id, { name: e.target.value })}
+                        placeholder="Profile name"
+                        disabled={profile.builtIn}
+                      />
+                    </div>
+                    <div className="md:col-span-5">
+                      <Input
+                        value={profile.baseUrl}
+                        onChange={(e) => updateProfile(profile.id, { baseUrl: e.target.value })}
+                        placeholder={profile.builtIn ? 'Not set for this build' : 'http://host:8000/api'}
+                        className="font-mono text-sm"
+                        disabled={profile.builtIn}
+                        title={profile.builtIn ? 'Set by VITE_* variables at build time' : undefined}
+                      />
+                    </div>
+                    <div className="md:col-span-3 flex items-center justify-end gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => testProfile(profile)}
+                        disabled={!profile.baseUrl.trim() || state === 'checking'}
+                      >
+                        <Activity className="w-4 h-4 mr-1 inline" />
+                        Test
+                      </Button>
+                      {!profile.builtIn && (
+                        <Button variant="ghost" size="sm" onClick={() => removeProfile(profile.id)}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {state && (
+                    <div className="mt-3 text-sm flex items-center space-x-2">
+                      {state === 'checking' ? (
+                        <>
+                          <Loader2 className="w-4 h-4 text-gray-400 animate-spin" />
+                          <span className="text-gray-400">Checking /models/ ...</span>
+                        </>
+                      ) : state.ok ? (
+                        <>
+                          <CheckCircle2 className="w-4 h-4 text-green-400" />
+                          <span className="text-green-400">{state.message}</span>
+                          <span className="text-gray-500">({state.latencyMs} ms)</span>
+                        </>
+                      ) : (
+                        <>
+                          <XCircle className="w-4 h-4 text-red-400" />
+                          <span className="text-red-400">{state.message}</span>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <p className="text-gray-500 text-xs mt-6">
+            Built-in profiles come from VITE_API_BASE_URL, VITE_LAB_API_URL and VITE_STAGING_API_URL at build
+            time; add a profile to point at another server. Added profiles and the selected profile are stored in
+            this browser.
+          </p>
+        </Card>
+
+        <Card className="p-6 mt-8">
+          <div className="flex items-start space-x-3 mb-6">
+            <WifiOff className="w-6 h-6 text-amber-400 flex-shrink-0" />
+            <div>
+              <h2 className="text-2xl font-bold text-white">Offline Inference</h2>
+              <p className="text-gray-400 text-sm mt-1">
+                When the backend is unreachable, the exported Random Forest for the mission runs in the browser if this build ships one.
+              </p>
+              <div className="flex flex-wrap gap-3 mt-3">
+                {(Object.keys(models) as ModelType[]).map((model) => (
+                  <span key={model} className="flex items-center space-x-1 text-sm">
+                    {forests[model] === undefined ? (
+                      <Loader2 className="w-4 h-4 text-gray-400 animate-spin" />
+                    ) : forests[model] ? (
+                      <CheckCircle2 className="w-4 h-4 text-green-400" />
+                    ) : (
+                      <XCircle className="w-4 h-4 text-gray-500" />
+                    )}
+                    <span className={forests[model] ? 'text-gray-300' : 'text-gray-500'}>{model}</span>
+                  </span>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-start justify-between gap-6 py-4 border-t border-gray-700/50">
+            <div>
+              <h3 className="text-lg font-semibold text-white">Use in-browser models only</h3>
+              <p className="text-gray-400 text-sm mt-1">
+                Skip the backend entirely, for demo machines and field use without a Django process.
+              </p>
+            </div>
+            <label className="flex items-center space-x-2 cursor-pointer flex-shrink-0">
+              <input
+                type="checkbox"
+                checked={settings.preferOfflineModel}
+                onChange={(e) => updateSettings({ ...settings, preferOfflineModel: e.target.checked })}
+                className="w-5 h-5 accent-cyan-500"
+              />
+              <span className="text-gray-300 text-sm">{settings.preferOfflineModel ? 'Enabled' : 'Disabled'}</span>
+            </label>
+          </div>
+
+          <div className="flex items-start justify-between gap-6 pt-4 border-t border-gray-700/50">
+            <div>
+              <h3 className="text-lg font-semibold text-white">Heuristic fallback</h3>
+              <p className="text-gray-400 text-sm mt-1">
+                When no model is available at all, score inputs with the hand-weighted heuristic instead of failing.
+                Heuristic results are always labelled as such, but turn this off if every result must come from a trained model.
+              </p>
+            </div>
+            <label className="flex items-center space-x-2 cursor-pointer flex-shrink-0">
+              <input
+                type="checkbox"
+                checked={settings.allowOfflineFallback}
+                onChange={(e) => updateSettings({ ...settings, allowOfflineFallback: e.target.checked })}
+                className="w-5 h-5 accent-cyan-500"
+              />
+              <span className="text-gray-300 text-sm">{settings.allowOfflineFallback ? 'Enabled' : 'Disabled'}</span>
+            </label>
+          </div>
+        </Card>
+
+        <Card className="p-6 mt-8">
+          <div className="flex items-start space-x-3 mb-6">
+            <Ruler className="w-6 h-6 text-cyan-400 flex-shrink-0" />
+            <div>
+              <h2 className="text-2xl font-bold text-white">Units</h2>
+              <p className="text-gray-400 text-sm mt-1">
+                The units Dashboard inputs start in, and that History and Explorer show values in. Values are always
+                converted to the models' units before a prediction runs, so this never changes a result.
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-3">
+            {(Object.keys(fieldUnits) as NumericInputField[]).map((field) => (
+              <label key={field} className="flex items-center justify-between gap-4 border-b border-gray-700/50 pb-3">
+                <span className="text-gray-300 text-sm">{inputFieldInfo[field].label}</span>
+                <select
+                  value={unitFor(field, settings.preferredUnits)?.id}
+                  onChange={(e) =>
+                    updateSettings({ ...settings, preferredUnits: { ...settings.preferredUnits, [field]: e.target.value } })
+                  }
+                  className="px-3 py-1.5 bg-gray-900/50 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                >
+                  {fieldUnits[field]?.map((u) => (
+                    <option key={u.id} value={u.id}>
+                      {u.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,114 +1,252 @@
-const API_BASE_URL = 'http://127.0.0.1:8000/api';
-
-export interface PredictionInput {
-  nasaConfidence?: number;
-  signalToNoise?: number;
-  transitDepth?: number;
-  orbitalPeriod?: number;
-  transitDuration?: number;
-  planetRadius?: number;
-  planetTemperature?: number;
-  starTemperature?: number;
-  starRadius?: number;
-  starMass?: number;
-  distance?: number;
-  flagNotTransit?: boolean;
-  flagStellarEclipse?: boolean;
-  flagCentroidOffset?: boolean;
-  flagEphemerisMatch?: boolean;
-  impactParameter?: number;
-  eccentricity?: number;
-  inclination?: number;
-  metallicity?: number;
-  surfaceGravity?: number;
-  age?: number;
-}
+import { ApiHistoryCreate, ApiHistoryEntry, ApiModelInfo, ApiPredictionResponse, PredictionInput } from '../types';
+import { getActiveProfile, normalizeBaseUrl } from '../utils/settings';
+import { NetworkError, TimeoutError, CancelledError, ValidationError, ClientError, ServerError } from './errors';
+import {
+  parseModels,
+  parsePrediction,
+  parseHistory,
+  parseHistoryEntry,
+  parseFeatureExplanations,
+  toApiInput
+} from './contract';
 
-export interface PredictionResult {
-  status: 'candidate' | 'false_positive' | 'unknown';
-  confidence: number;
-  explanation: string;
-  probabilities: Record<string, number>;
-  feature_importance?: Array<{
-    feature: string;
-    importance: number;
-  }>;
-  prediction_id?: number;
-}
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+const DEFAULT_TIMEOUT_MS = 15000;
+// The backend trains a model on its first /predict/ call for that mission, which can take a while
+const PREDICT_TIMEOUT_MS = 60000;
+const DEFAULT_GET_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
 
-export interface ModelInfo {
-  name: string;
-  description: string;
-  year_of_operation: string;
-  accuracy: number;
-  f1_score: number;
-  logo: string;
-  features: string[];
+export interface RequestOptions {
+  // Aborting this signal cancels the request (and any pending retry) with CancelledError
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // Extra attempts after a network error, timeout or 5xx; defaults to 2 for GETs and 0 otherwise
+  retries?: number;
 }
 
-export interface PredictionHistory {
-  id: number;
-  timestamp: string;
-  model_name: string;
-  input_data: PredictionInput;
-  predicted_status: string;
-  confidence: number;
-  probabilities: Record<string, number>;
+export interface HealthCheckResult {
+  ok: boolean;
+  status?: number;
+  latencyMs: number;
+  message: string;
 }
 
 class ApiService {
-  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
-    const url = `${API_BASE_URL}${endpoint}`;
+  private baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = normalizeBaseUrl(baseUrl);
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  setBaseUrl(baseUrl: string): void {
+    this.baseUrl = normalizeBaseUrl(baseUrl);
+  }
+
+  /**
+   * Fetches an endpoint and runs the JSON body through `parse`. Every failure
+   * is raised as one of the ApiError subclasses in ./errors. Idempotent GETs
+   * are retried with exponential backoff; other methods are sent once.
+   */
+  private async request<T>(
+    endpoint: string,
+    parse: (data: unknown, endpoint: string) => T,
+    init: RequestInit = {},
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const url = `${this.baseUrl}${endpoint}`;
+    const method = (init.method ?? 'GET').toUpperCase();
+    const retries = options.retries ?? (method === 'GET' ? DEFAULT_GET_RETRIES : 0);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.attempt(url, parse, init, options);
+      } catch (error) {
+        const retryable =
+          error instanceof NetworkError || error instanceof TimeoutError || error instanceof ServerError;
+        if (!retryable || attempt >= retries) throw error;
+
+        const delay = RETRY_BASE_DELAY_MS * 2 ** attempt * (0.75 + Math.random() * 0.5);
+        console.warn(`Retrying ${url} in ${Math.round(delay)}ms (attempt ${attempt + 2} of ${retries + 1})`);
+        await sleep(delay, url, options.signal);
+      }
+    }
+  }
+
+  private async attempt<T>(
+    url: string,
+    parse: (data: unknown, endpoint: string) => T,
+    init: RequestInit,
+    options: RequestOptions
+  ): Promise<T> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = window.setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    const cancel = () => controller.abort();
+    if (options.signal?.aborted) controller.abort();
+    options.signal?.addEventListener('abort', cancel);
+
     const config: RequestInit = {
+      ...init,
       headers: {
         'Content-Type': 'application/json',
-        ...options.headers,
+        ...init.headers,
       },
-      ...options,
+      signal: controller.signal,
     };
 
+    // Abort-driven failures are reported as timeout or cancellation, never as a network error
+    const abortError = () => (timedOut ? new TimeoutError(url, timeoutMs) : new CancelledError(url));
+
     try {
-      const response = await fetch(url, config);
-      
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      let response: Response;
+      try {
+        response = await fetch(url, config);
+      } catch (error) {
+        if (controller.signal.aborted) throw abortError();
+        console.error('API request failed:', error);
+        throw new NetworkError(url);
       }
 
-      return await response.json();
-    } catch (error) {
-      console.error('API request failed:', error);
-      throw error;
+      const body: unknown = await response.json().catch(() => undefined);
+      if (controller.signal.aborted) throw abortError();
+
+      return this.handleResponse(url, response, body, parse);
+    } finally {
+      window.clearTimeout(timer);
+      options.signal?.removeEventListener('abort', cancel);
     }
   }
 
-  async getModels(): Promise<Record<string, ModelInfo>> {
-    return this.request<Record<string, ModelInfo>>('/models/');
+  private handleResponse<T>(
+    url: string,
+    response: Response,
+    body: unknown,
+    parse: (data: unknown, endpoint: string) => T
+  ): T {
+
+    if (!response.ok) {
+      const message = `${formatErrorBody(body) ?? response.statusText} (HTTP ${response.status})`;
+      const HttpErrorType = response.status >= 500 ? ServerError : ClientError;
+      throw new HttpErrorType(message, url, response.status, body);
+    }
+
+    if (body === undefined) {
+      throw new ValidationError(url, ['response body is not valid JSON']);
+    }
+
+    return parse(body, url);
+  }
+
+  // Probes /models/ on the given base URL (defaults to the active one) without throwing
+  async checkHealth(baseUrl: string = this.baseUrl): Promise<HealthCheckResult> {
+    const url = `${normalizeBaseUrl(baseUrl)}/models/`;
+    const controller = new AbortController();
+    const timer = window.setTimeout(() => controller.abort(), HEALTH_CHECK_TIMEOUT_MS);
+    const started = performance.now();
+
+    try {
+      const response = await fetch(url, { signal: controller.signal });
+      const latencyMs = Math.round(performance.now() - started);
+      if (!response.ok) {
+        return { ok: false, status: response.status, latencyMs, message: `HTTP ${response.status}` };
+      }
+      try {
+        parseModels(await response.json(), url);
+      } catch {
+        return { ok: false, status: response.status, latencyMs, message: 'Responded, but /models/ does not match the expected format' };
+      }
+      return { ok: true, status: response.status, latencyMs, message: 'Connected' };
+    } catch {
+      const latencyMs = Math.round(performance.now() - started);
+      const message = controller.signal.aborted
+        ? `No response after ${HEALTH_CHECK_TIMEOUT_MS / 1000}s`
+        : 'Unreachable';
+      return { ok: false, latencyMs, message };
+    } finally {
+      window.clearTimeout(timer);
+    }
+  }
+
+  async getModels(options?: RequestOptions): Promise<Record<string, ApiModelInfo>> {
+    return this.request('/models/', parseModels, {}, options);
+  }
+
+  // `record: false` asks the backend not to store the result in its history
+  async predict(
+    input: PredictionInput,
+    model: string = 'kepler',
+    options?: RequestOptions & { record?: boolean }
+  ): Promise<ApiPredictionResponse> {
+    const { record = true, ...requestOptions } = options ?? {};
+    return this.request(
+      '/predict/',
+      parsePrediction,
+      {
+        method: 'POST',
+        body: JSON.stringify({ model, ...toApiInput(input), ...(record ? {} : { record: false }) }),
+      },
+      { timeoutMs: PREDICT_TIMEOUT_MS, ...requestOptions }
+    );
   }
 
-  async predict(input: PredictionInput, model: string = 'kepler'): Promise<PredictionResult> {
-    return this.request<PredictionResult>('/predict/', {
-      method: 'POST',
-      body: JSON.stringify({
-        model,
-        signal_to_noise: input.signalToNoise,
-        transit_depth: input.transitDepth,
-        orbital_period: input.orbitalPeriod,
-        transit_duration: input.transitDuration,
-        planet_radius: input.planetRadius,
-        planet_temperature: input.planetTemperature,
-        // Detection flags and extended stellar/orbital params removed per requirements
-      }),
-    });
+  async getPredictionHistory(options?: RequestOptions): Promise<ApiHistoryEntry[]> {
+    return this.request('/history/', parseHistory, {}, options);
   }
 
-  async getPredictionHistory(): Promise<PredictionHistory[]> {
-    return this.request<PredictionHistory[]>('/history/');
+  async createHistoryEntry(entry: ApiHistoryCreate, options?: RequestOptions): Promise<ApiHistoryEntry> {
+    return this.request(
+      '/history/',
+      parseHistoryEntry,
+      {
+        method: 'POST',
+        body: JSON.stringify(entry),
+      },
+      options
+    );
   }
 
-  async getFeatureExplanations(model: string = 'kepler'): Promise<Record<string, string>> {
-    return this.request<Record<string, string>>(`/features/?model=${model}`);
+  async getFeatureExplanations(model: string = 'kepler', options?: RequestOptions): Promise<Record<string, string>> {
+    return this.request(`/features/?model=${model}`, parseFeatureExplanations, {}, options);
   }
 }
 
-export const apiService = new ApiService();
+// Waits before a retry, giving up early with CancelledError if the caller aborts
+function sleep(ms: number, url: string, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new CancelledError(url));
+    const onAbort = () => {
+      window.clearTimeout(timer);
+      reject(new CancelledError(url));
+    };
+    const timer = window.setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// DRF reports errors as {"error": "..."} from our views or {"field": ["..."]} from serializers
+function formatErrorBody(body: unknown): string | null {
+  if (typeof body !== 'object' || body === null) return null;
+  const data = body as Record<string, unknown>;
+  if (typeof data.error === 'string') return data.error;
+
+  const messages = Object.entries(data).map(([field, value]) => {
+    const text = Array.isArray(value) ? value.join(' ') : String(value);
+    return field === 'non_field_errors' ? text : `${field}: ${text}`;
+  });
+  return messages.length ? messages.join('; ') : null;
+}
+
+export const apiService = new ApiService(getActiveProfile().baseUrl);
@@ -0,0 +1,238 @@
+import { ApiHistoryEntry, ApiModelInfo, ApiPredictionResponse, CoreFeature, NumericInputField, PredictionInput } from '../types';
+import { ValidationError } from './errors';
+
+// Request field names the backend serializer expects for each PredictionInput key
+export const apiFieldNames: Record<keyof PredictionInput, string> = {
+  signalToNoise: 'signal_to_noise',
+  transitDepth: 'transit_depth',
+  orbitalPeriod: 'orbital_period',
+  transitDuration: 'transit_duration',
+  planetRadius: 'planet_radius',
+  planetTemperature: 'planet_temperature',
+  nasaConfidence: 'nasa_confidence',
+  starTemperature: 'star_temperature',
+  starRadius: 'star_radius',
+  starMass: 'star_mass',
+  distance: 'distance',
+  flagNotTransit: 'flag_not_transit',
+  flagStellarEclipse: 'flag_stellar_eclipse',
+  flagCentroidOffset: 'flag_centroid_offset',
+  flagEphemerisMatch: 'flag_ephemeris_match',
+  impactParameter: 'impact_parameter',
+  eccentricity: 'eccentricity',
+  inclination: 'inclination',
+  metallicity: 'metallicity',
+  surfaceGravity: 'surface_gravity',
+  age: 'age'
+};
+
+export function toApiInput(input: PredictionInput): Record<string, number | boolean> {
+  const body: Record<string, number | boolean> = {};
+  for (const [key, field] of Object.entries(apiFieldNames) as Array<[keyof PredictionInput, string]>) {
+    const value = input[key];
+    if (value !== undefined) body[field] = value;
+  }
+  return body;
+}
+
+const optionalNumberFields: Array<Exclude<NumericInputField, CoreFeature>> = [
+  'nasaConfidence',
+  'starTemperature',
+  'starRadius',
+  'starMass',
+  'distance',
+  'impactParameter',
+  'eccentricity',
+  'inclination',
+  'metallicity',
+  'surfaceGravity',
+  'age'
+];
+const flagFields: Array<Exclude<keyof PredictionInput, NumericInputField>> = [
+  'flagNotTransit',
+  'flagStellarEclipse',
+  'flagCentroidOffset',
+  'flagEphemerisMatch'
+];
+
+/**
+ * Builds a PredictionInput from loosely typed values keyed by PredictionInput
+ * field (stored presets, query strings, history entries). Returns null unless
+ * all six core parameters are finite numbers; optional fields of the wrong
+ * type are dropped.
+ */
+export function toPredictionInput(values: Record<string, unknown>): PredictionInput | null {
+  const { signalToNoise, transitDepth, orbitalPeriod, transitDuration, planetRadius, planetTemperature } = values;
+  if (
+    !isNumber(signalToNoise) ||
+    !isNumber(transitDepth) ||
+    !isNumber(orbitalPeriod) ||
+    !isNumber(transitDuration) ||
+    !isNumber(planetRadius) ||
+    !isNumber(planetTemperature)
+  ) {
+    return null;
+  }
+
+  const input: PredictionInput = {
+    signalToNoise,
+    transitDepth,
+    orbitalPeriod,
+    transitDuration,
+    planetRadius,
+    planetTemperature
+  };
+  for (const field of optionalNumberFields) {
+    const value = values[field];
+    if (isNumber(value)) input[field] = value;
+  }
+  for (const field of flagFields) {
+    const value = values[field];
+    if (typeof value === 'boolean') input[field] = value;
+  }
+  return input;
+}
+
+const statuses = ['candidate', 'false_positive', 'unknown'];
+const sources = ['model', 'server_heuristic', 'offline_model', 'offline_heuristic'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function checkNumberRecord(value: unknown, path: string, issues: string[]) {
+  if (!isRecord(value)) {
+    issues.push(`${path} should be an object`);
+    return;
+  }
+  for (const [key, v] of Object.entries(value)) {
+    if (!isNumber(v)) issues.push(`${path}.${key} should be a number`);
+  }
+}
+
+function checkModelInfo(value: unknown, path: string, issues: string[]) {
+  if (!isRecord(value)) {
+    issues.push(`${path} should be an object`);
+    return;
+  }
+  for (const key of ['name', 'description', 'year_of_operation', 'logo']) {
+    if (typeof value[key] !== 'string') issues.push(`${path}.${key} should be a string`);
+  }
+  for (const key of ['accuracy', 'f1_score']) {
+    if (!isNumber(value[key])) issues.push(`${path}.${key} should be a number`);
+  }
+  if (!Array.isArray(value.features) || value.features.some((f) => typeof f !== 'string')) {
+    issues.push(`${path}.features should be a list of strings`);
+  }
+  const names = value.feature_names;
+  if (names !== undefined && (!Array.isArray(names) || names.some((f) => typeof f !== 'string'))) {
+    issues.push(`${path}.feature_names should be a list of strings`);
+  }
+}
+
+function checkPrediction(value: unknown, issues: string[]) {
+  if (!isRecord(value)) {
+    issues.push('response should be an object');
+    return;
+  }
+  if (!statuses.includes(value.status as string)) {
+    issues.push(`status should be one of ${statuses.join(', ')} (got ${JSON.stringify(value.status)})`);
+  }
+  if (!isNumber(value.confidence) || value.confidence < 0 || value.confidence > 1) {
+    issues.push('confidence should be a number between 0 and 1');
+  }
+  if (typeof value.explanation !== 'string') issues.push('explanation should be a string');
+  checkNumberRecord(value.probabilities, 'probabilities', issues);
+
+  if (value.feature_importance !== undefined) {
+    if (!Array.isArray(value.feature_importance)) {
+      issues.push('feature_importance should be a list');
+    } else {
+      value.feature_importance.forEach((f, i) => {
+        if (!isRecord(f) || typeof f.feature !== 'string' || !isNumber(f.importance)) {
+          issues.push(`feature_importance[${i}] should have a string feature and numeric importance`);
+        }
+      });
+    }
+  }
+  if (value.prediction_id !== undefined && !isNumber(value.prediction_id)) {
+    issues.push('prediction_id should be a number');
+  }
+  if (value.mock_prediction !== undefined && typeof value.mock_prediction !== 'boolean') {
+    issues.push('mock_prediction should be a boolean');
+  }
+}
+
+function checkHistoryEntry(value: unknown, path: string, issues: string[]) {
+  if (!isRecord(value)) {
+    issues.push(`${path} should be an object`);
+    return;
+  }
+  if (!isNumber(value.id)) issues.push(`${path}.id should be a number`);
+  if (typeof value.timestamp !== 'string' || Number.isNaN(Date.parse(value.timestamp))) {
+    issues.push(`${path}.timestamp should be an ISO date string`);
+  }
+  if (typeof value.model_name !== 'string') issues.push(`${path}.model_name should be a string`);
+  if (!isRecord(value.input_data)) issues.push(`${path}.input_data should be an object`);
+  if (typeof value.predicted_status !== 'string') issues.push(`${path}.predicted_status should be a string`);
+  if (!isNumber(value.confidence)) issues.push(`${path}.confidence should be a number`);
+  checkNumberRecord(value.probabilities, `${path}.probabilities`, issues);
+  if (value.source !== undefined && !sources.includes(value.source as string)) {
+    issues.push(`${path}.source should be one of ${sources.join(', ')}`);
+  }
+}
+
+// Each parser returns the payload typed, or throws ValidationError listing every mismatch
+
+export function parseModels(data: unknown, endpoint: string): Record<string, ApiModelInfo> {
+  const issues: string[] = [];
+  if (!isRecord(data)) {
+    issues.push('response should be an object keyed by model name');
+  } else {
+    for (const [key, value] of Object.entries(data)) checkModelInfo(value, key, issues);
+  }
+  if (issues.length) throw new ValidationError(endpoint, issues);
+  return data as Record<string, ApiModelInfo>;
+}
+
+export function parsePrediction(data: unknown, endpoint: string): ApiPredictionResponse {
+  const issues: string[] = [];
+  checkPrediction(data, issues);
+  if (issues.length) throw new ValidationError(endpoint, issues);
+  return data as ApiPredictionResponse;
+}
+
+export function parseHistory(data: unknown, endpoint: string): ApiHistoryEntry[] {
+  const issues: string[] = [];
+  if (!Array.isArray(data)) {
+    issues.push('response should be a list');
+  } else {
+    data.forEach((entry, i) => checkHistoryEntry(entry, `[${i}]`, issues));
+  }
+  if (issues.length) throw new ValidationError(endpoint, issues);
+  return data as ApiHistoryEntry[];
+}
+
+export function parseHistoryEntry(data: unknown, endpoint: string): ApiHistoryEntry {
+  const issues: string[] = [];
+  checkHistoryEntry(data, 'response', issues);
+  if (issues.length) throw new ValidationError(endpoint, issues);
+  return data as ApiHistoryEntry;
+}
+
+export function parseFeatureExplanations(data: unknown, endpoint: string): Record<string, string> {
+  const issues: string[] = [];
+  if (!isRecord(data)) {
+    issues.push('response should be an object');
+  } else {
+    for (const [key, value] of Object.entries(data)) {
+      if (typeof value !== 'string') issues.push(`${key} should be a string`);
+    }
+  }
+  if (issues.length) throw new ValidationError(endpoint, issues);
+  return data as Record<string, string>;
+}
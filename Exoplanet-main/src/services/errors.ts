@@ -0,0 +1,109 @@
+// Error categories raised by ApiService so callers can react to each differently
+
+export class ApiError extends Error {
+  readonly endpoint: string;
+
+  constructor(message: string, endpoint: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.endpoint = endpoint;
+  }
+}
+
+// The request never got a response (backend down, DNS failure, CORS rejection)
+export class NetworkError extends ApiError {
+  constructor(endpoint: string) {
+    super(`Could not reach the backend at ${endpoint}`, endpoint);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends ApiError {
+  readonly timeoutMs: number;
+
+  constructor(endpoint: string, timeoutMs: number) {
+    super(`No response from ${endpoint} after ${timeoutMs / 1000}s`, endpoint);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+// The caller aborted the request (navigated away or started a new one); not shown to the user
+export class CancelledError extends ApiError {
+  constructor(endpoint: string) {
+    super(`Request to ${endpoint} was cancelled`, endpoint);
+    this.name = 'CancelledError';
+  }
+}
+
+// The backend answered, but not in the shape the frontend contract expects
+export class ValidationError extends ApiError {
+  readonly issues: string[];
+
+  constructor(endpoint: string, issues: string[]) {
+    super(`Unexpected response from ${endpoint}: ${issues.slice(0, 3).join('; ')}`, endpoint);
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+export class HttpError extends ApiError {
+  readonly status: number;
+  readonly body: unknown;
+
+  constructor(message: string, endpoint: string, status: number, body: unknown) {
+    super(message, endpoint);
+    this.name = 'HttpError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+// 4xx: the request itself was rejected, usually invalid input
+export class ClientError extends HttpError {
+  constructor(message: string, endpoint: string, status: number, body: unknown) {
+    super(message, endpoint, status, body);
+    this.name = 'ClientError';
+  }
+}
+
+// 5xx: the backend failed while handling a valid request
+export class ServerError extends HttpError {
+  constructor(message: string, endpoint: string, status: number, body: unknown) {
+    super(message, endpoint, status, body);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * Whether a prediction may fall back to offline inference after this error.
+ * Rejected input and contract violations are surfaced instead of papered over.
+ */
+export function isRecoverable(error: unknown): boolean {
+  return error instanceof NetworkError || error instanceof TimeoutError || error instanceof ServerError;
+}
+
+export function describeError(error: unknown): { title: string; message: string } {
+  if (error instanceof NetworkError) {
+    return { title: 'Backend Unreachable', message: error.message };
+  }
+  if (error instanceof TimeoutError) {
+    return { title: 'Request Timed Out', message: error.message };
+  }
+  if (error instanceof ValidationError) {
+    return {
+      title: 'Unexpected Backend Response',
+      message: `${error.message}. The backend API may have changed; results were not used.`
+    };
+  }
+  if (error instanceof ClientError) {
+    return { title: 'Input Rejected', message: error.message };
+  }
+  if (error instanceof ServerError) {
+    return { title: 'Backend Error', message: error.message };
+  }
+  return {
+    title: 'Prediction Failed',
+    message: error instanceof Error ? error.message : 'No prediction was made.'
+  };
+}
@@ -0,0 +1,41 @@
+import { ForestExport } from '../utils/forest';
+
+export const LEAF = -1;
+const UNUSED = -2;
+
+// Two trees over SNR and depth, with an identity scaler so thresholds are in raw units
+export const testForest: ForestExport = {
+  model: 'kepler',
+  features: ['koi_model_snr', 'koi_depth'],
+  classes: ['candidate', 'false_positive'],
+  scaler: { mean: [0, 0], scale: [1, 1] },
+  feature_importance: [0.6, 0.4],
+  trees: [
+    {
+      // snr <= 10 ? mostly false positive : mostly candidate
+      feature: [0, UNUSED, UNUSED],
+      threshold: [10, UNUSED, UNUSED],
+      left: [1, LEAF, LEAF],
+      right: [2, LEAF, LEAF],
+      value: [
+        [0.6, 0.4],
+        [0.2, 0.8],
+        [0.9, 0.1]
+      ]
+    },
+    {
+      // depth <= 500 ? (snr <= 20 ? false positive : even) : candidate
+      feature: [1, 0, UNUSED, UNUSED, UNUSED],
+      threshold: [500, 20, UNUSED, UNUSED, UNUSED],
+      left: [1, 3, LEAF, LEAF, LEAF],
+      right: [2, 4, LEAF, LEAF, LEAF],
+      value: [
+        [0.5, 0.5],
+        [0.3, 0.7],
+        [0.7, 0.3],
+        [0.1, 0.9],
+        [0.5, 0.5]
+      ]
+    }
+  ]
+};
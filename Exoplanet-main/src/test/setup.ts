@@ -0,0 +1,19 @@
+import { beforeEach } from 'vitest';
+
+// Settings, presets and history live in localStorage, which node doesn't have
+const store = new Map<string, string>();
+
+const memoryStorage: Storage = {
+  get length() {
+    return store.size;
+  },
+  clear: () => store.clear(),
+  getItem: (key) => store.get(key) ?? null,
+  key: (index) => [...store.keys()][index] ?? null,
+  removeItem: (key) => store.delete(key),
+  setItem: (key, value) => store.set(key, String(value))
+};
+
+globalThis.localStorage = memoryStorage;
+
+beforeEach(() => store.clear());
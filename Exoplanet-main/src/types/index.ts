@@ -1,3 +1,12 @@
+// The six transit features every mission model is trained on
+export type CoreFeature =
+  | 'signalToNoise'
+  | 'transitDepth'
+  | 'orbitalPeriod'
+  | 'transitDuration'
+  | 'planetRadius'
+  | 'planetTemperature';
+
 export interface PredictionInput {
   signalToNoise: number;
   transitDepth: number;
@@ -5,12 +14,106 @@ export interface PredictionInput {
   transitDuration: number;
   planetRadius: number;
   planetTemperature: number;
+  // Optional parameters the backend serializer also accepts
+  nasaConfidence?: number;
+  starTemperature?: number;
+  starRadius?: number;
+  starMass?: number;
+  distance?: number;
+  flagNotTransit?: boolean;
+  flagStellarEclipse?: boolean;
+  flagCentroidOffset?: boolean;
+  flagEphemerisMatch?: boolean;
+  impactParameter?: number;
+  eccentricity?: number;
+  inclination?: number;
+  metallicity?: number;
+  surfaceGravity?: number;
+  age?: number;
+}
+
+// Optional inputs, offered per mission in the Advanced section of the Dashboard
+export type AdvancedField = Exclude<keyof PredictionInput, CoreFeature>;
+
+// The PredictionInput fields that hold numbers (everything except the flags)
+export type NumericInputField = {
+  [K in keyof PredictionInput]-?: NonNullable<PredictionInput[K]> extends number ? K : never;
+}[keyof PredictionInput];
+
+// 1σ measurement uncertainty per field, in canonical units
+export type InputUncertainties = Partial<Record<NumericInputField, number>>;
+
+// Unit id chosen per field (see utils/units.ts); missing fields use the canonical unit
+export type UnitPreferences = Partial<Record<NumericInputField, string>>;
+
+// The boolean false-positive flags
+export type FlagField = Exclude<keyof PredictionInput, NumericInputField>;
+
+// Where a result came from: the trained backend model, the backend's own
+// fallback scoring (used when its model failed to load), the exported forest
+// evaluated in the browser, or the in-browser heuristic
+export type InferenceSource = 'model' | 'server_heuristic' | 'offline_model' | 'offline_heuristic';
+
+export interface FeatureImportance {
+  feature: string;
+  importance: number;
 }
 
 export interface PredictionResult {
   status: 'candidate' | 'false_positive' | 'unknown';
   confidence: number;
   explanation: string;
+  // Absent on predictions saved before the source was recorded
+  source?: InferenceSource;
+  // Per-class probabilities keyed by the model's own class names; heuristic results have none
+  probabilities?: Record<string, number>;
+  // Model-wide importances, most important first
+  featureImportance?: FeatureImportance[];
+  // id of the matching record in the backend's /history/, once it has one
+  predictionId?: number;
+}
+
+// An input that doesn't fit with the others physically, with the range that would fit
+export interface ConsistencyWarning {
+  field: keyof PredictionInput;
+  message: string;
+  expected: { min?: number; max?: number; unit?: string };
+}
+
+// Spread of one feature over a model's training rows
+export interface FeatureEnvelope {
+  min: number;
+  p1: number;
+  p50: number;
+  p99: number;
+  max: number;
+}
+
+// An input the model saw little or nothing like in training (see utils/envelope)
+export interface EnvelopeFlag {
+  field: CoreFeature;
+  value: number;
+  // 'sparse': beyond the 1st/99th percentile; 'outside': beyond anything in the training set
+  severity: 'sparse' | 'outside';
+  direction: 'below' | 'above';
+  envelope: FeatureEnvelope;
+}
+
+// Orbit and planet quantities worked out from a PredictionInput (see utils/astrophysics)
+export interface DerivedQuantities {
+  // True when any stellar parameter was missing and a Sun-like value was used
+  assumedStar: boolean;
+  semiMajorAxisAu: number;
+  // Stellar flux received relative to Earth's (S⊕)
+  insolation: number;
+  // Rp/R* implied by the transit depth, and the planet radius that gives in R⊕
+  radiusRatio: number;
+  radiusFromDepth: number;
+  // Duration of a central transit on a circular orbit; NaN if the orbit is inside the star
+  centralDurationHours: number;
+  // Equilibrium temperature for an Earth-like albedo, and the entered value relative to it
+  equilibriumTemperature: number;
+  temperatureRatio: number;
 }
 
 export interface Prediction {
@@ -19,10 +122,46 @@ export interface Prediction {
   modelName: string;
   input: PredictionInput;
   result: PredictionResult;
+  // Physical consistency problems found in the input when the prediction was made
+  warnings?: ConsistencyWarning[];
+  // Units the values were entered in; `input` itself is always in canonical units
+  inputUnits?: UnitPreferences;
 }
 
 export type ModelType = 'K2' | 'TESS' | 'Kepler';
 
+// A row of the local target catalog searched from the Dashboard
+export interface CatalogEntry {
+  id: string;
+  name: string;
+  // Identifiers the entry can be found by (KOI/TOI/EPIC names, Kepler IDs, ...)
+  aliases: string[];
+  // Where the row came from: the reference library or an uploaded file name
+  source: string;
+  input: PredictionInput;
+  disposition?: string;
+}
+
+// A named set of inputs saved from the Dashboard
+export interface ParameterPreset {
+  id: string;
+  name: string;
+  input: PredictionInput;
+  createdAt: string;
+}
+
+// Built-in inputs with a known disposition, for sanity-checking the models
+export interface ReferenceTarget {
+  id: string;
+  name: string;
+  mission: ModelType;
+  disposition: 'confirmed' | 'candidate' | 'false_positive';
+  input: PredictionInput;
+  note?: string;
+  // Catalogue identifiers for the target lookup
+  aliases?: string[];
+}
+
 export interface ModelInfo {
   name: ModelType;
   description: string;
@@ -47,3 +186,79 @@ export interface ModelSpecification {
   };
   confusionMatrix: number[][];
 }
+
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  baseUrl: string;
+  builtIn?: boolean;
+}
+
+export interface AppSettings {
+  profiles: ConnectionProfile[];
+  activeProfileId: string;
+  allowOfflineFallback: boolean;
+  preferOfflineModel: boolean;
+  // Units inputs start in on the Dashboard and values are shown in elsewhere
+  preferredUnits: UnitPreferences;
+  // Switch the Dashboard to the mission whose training data best fits the input
+  autoSelectModel: boolean;
+}
+
+export interface EnsembleConsensus {
+  // Most common verdict; 'unknown' when the vote is tied
+  majority: PredictionResult['status'];
+  majorityVotes: number;
+  // Verdict with the largest summed confidence, and its share of the total
+  weighted: PredictionResult['status'];
+  weightedShare: number;
+  disagreement: boolean;
+}
+
+// Wire formats of the Django API (snake_case, as returned by the backend)
+
+export interface ApiModelInfo {
+  name: string;
+  description: string;
+  year_of_operation: string;
+  accuracy: number;
+  f1_score: number;
+  logo: string;
+  // Descriptive, for display
+  features: string[];
+  // koi_* columns the model is trained on; missing on older backends
+  feature_names?: string[];
+}
+
+export interface ApiPredictionResponse {
+  status: PredictionResult['status'];
+  confidence: number;
+  explanation: string;
+  probabilities: Record<string, number>;
+  feature_importance?: FeatureImportance[];
+  prediction_id?: number;
+  // Set by the backend when its model was unavailable and it scored the input heuristically
+  mock_prediction?: boolean;
+}
+
+export interface ApiHistoryEntry {
+  id: number;
+  timestamp: string;
+  model_name: string;
+  // Validated serializer data, keyed by the snake_case request fields
+  input_data: Record<string, number | boolean | null>;
+  predicted_status: string;
+  confidence: number;
+  probabilities: Record<string, number>;
+  // Missing on backends that predate source tracking
+  source?: InferenceSource;
+}
+
+export type ApiHistoryCreate = Omit<ApiHistoryEntry, 'id' | 'source'> & { source?: InferenceSource };
+
+// Where a history entry is stored: only in this browser, only on the backend, or both
+export type HistoryLocation = 'local' | 'server' | 'both';
+
+export interface SyncedPrediction extends Prediction {
+  location: HistoryLocation;
+}
@@ -0,0 +1,100 @@
+import { DerivedQuantities, PredictionInput } from '../types';
+
+// Physical constants (SI) and solar/terrestrial reference values
+export const G = 6.674e-11;
+export const SOLAR_MASS = 1.989e30;
+export const SOLAR_RADIUS = 6.957e8;
+export const SOLAR_TEMPERATURE = 5772;
+export const EARTH_RADIUS = 6.371e6;
+export const AU = 1.496e11;
+const SECONDS_PER_DAY = 86400;
+
+/**
+ * Orbital semi-major axis in metres from Kepler's third law, neglecting the
+ * planet's mass.
+ */
+export function semiMajorAxis(periodDays: number, starMassSolar: number): number {
+  const period = periodDays * SECONDS_PER_DAY;
+  return Math.cbrt((G * starMassSolar * SOLAR_MASS * period * period) / (4 * Math.PI * Math.PI));
+}
+
+// Inverse of semiMajorAxis: orbital period in days for a semi-major axis in metres
+export function orbitalPeriodDays(semiMajorAxisMetres: number, starMassSolar: number): number {
+  return (2 * Math.PI * Math.sqrt(semiMajorAxisMetres ** 3 / (G * starMassSolar * SOLAR_MASS))) / SECONDS_PER_DAY;
+}
+
+/**
+ * Longest possible transit (first to fourth contact) in hours: a central
+ * transit (b = 0) on a circular orbit. Returns NaN when the orbit would lie
+ * inside the star.
+ */
+export function maxTransitDurationHours(
+  periodDays: number,
+  starRadiusSolar: number,
+  starMassSolar: number,
+  planetRadiusEarth = 0
+): number {
+  const a = semiMajorAxis(periodDays, starMassSolar);
+  const reach = starRadiusSolar * SOLAR_RADIUS + planetRadiusEarth * EARTH_RADIUS;
+  if (reach >= a) return NaN;
+  return ((periodDays * 24) / Math.PI) * Math.asin(reach / a);
+}
+
+// Transit depth in ppm of a dark disc on a uniform stellar disc, i.e. (Rp/R*)²
+export function transitDepthPpm(planetRadiusEarth: number, starRadiusSolar: number): number {
+  const ratio = (planetRadiusEarth * EARTH_RADIUS) / (starRadiusSolar * SOLAR_RADIUS);
+  return ratio * ratio * 1e6;
+}
+
+// Planet radius in R⊕ that would produce `depthPpm` in front of the star; inverse of transitDepthPpm
+export function planetRadiusFromDepth(depthPpm: number, starRadiusSolar: number): number {
+  return (Math.sqrt(depthPpm / 1e6) * starRadiusSolar * SOLAR_RADIUS) / EARTH_RADIUS;
+}
+
+/**
+ * Equilibrium temperature in K for a planet that redistributes heat evenly:
+ * Teff · sqrt(R* / 2a) · (1 − A)^¼.
+ */
+export function equilibriumTemperature(
+  starTemperature: number,
+  starRadiusSolar: number,
+  semiMajorAxisMetres: number,
+  albedo = 0
+): number {
+  return (
+    starTemperature * Math.sqrt((starRadiusSolar * SOLAR_RADIUS) / (2 * semiMajorAxisMetres)) * Math.pow(1 - albedo, 0.25)
+  );
+}
+
+// Earth's Bond albedo, used for the reference equilibrium temperature
+const EARTH_ALBEDO = 0.3;
+
+function orDefault(value: number | undefined, fallback: number): [number, boolean] {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? [value, false] : [fallback, true];
+}
+
+/**
+ * Works out orbit and planet quantities from the transit parameters. Stellar
+ * radius, mass and temperature default to solar values when not entered.
+ */
+export function deriveQuantities(input: PredictionInput): DerivedQuantities {
+  const [starRadius, radiusAssumed] = orDefault(input.starRadius, 1);
+  const [starMass, massAssumed] = orDefault(input.starMass, 1);
+  const [starTemperature, temperatureAssumed] = orDefault(input.starTemperature, SOLAR_TEMPERATURE);
+
+  const a = semiMajorAxis(input.orbitalPeriod, starMass);
+  const semiMajorAxisAu = a / AU;
+  const radiusRatio = Math.sqrt(Math.max(input.transitDepth, 0) / 1e6);
+  const teq = equilibriumTemperature(starTemperature, starRadius, a, EARTH_ALBEDO);
+
+  return {
+    assumedStar: radiusAssumed || massAssumed || temperatureAssumed,
+    semiMajorAxisAu,
+    insolation: (starRadius ** 2 * (starTemperature / SOLAR_TEMPERATURE) ** 4) / semiMajorAxisAu ** 2,
+    radiusRatio,
+    radiusFromDepth: planetRadiusFromDepth(input.transitDepth, starRadius),
+    centralDurationHours: maxTransitDurationHours(input.orbitalPeriod, starRadius, starMass, input.planetRadius),
+    equilibriumTemperature: teq,
+    temperatureRatio: input.planetTemperature / teq
+  };
+}
@@ -0,0 +1,37 @@
+import { CancelledError } from '../services/errors';
+
+/**
+ * Runs `fn` over every item with at most `limit` calls in flight, so one slow
+ * request doesn't hold up the rest. Results keep the input order. If `fn`
+ * throws, no new items are started and the first error is rethrown once the
+ * in-flight calls settle; aborting `signal` does the same with CancelledError.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failure: unknown = null;
+
+  const worker = async () => {
+    while (next < items.length && failure === null) {
+      if (signal?.aborted) {
+        failure = new CancelledError('batch');
+        return;
+      }
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failure ??= error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  if (failure !== null) throw failure;
+  return results;
+}
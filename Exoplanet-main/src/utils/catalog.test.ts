@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { CatalogEntry } from '../types';
+import { REFERENCE_SOURCE, getCatalog, normalizeIdentifier, searchCatalog } from './catalog';
+import { checkConsistency } from './consistency';
+
+const input = {
+  signalToNoise: 20,
+  transitDepth: 800,
+  orbitalPeriod: 12,
+  transitDuration: 3,
+  planetRadius: 2,
+  planetTemperature: 700
+};
+
+function entry(name: string, aliases: string[] = []): CatalogEntry {
+  return { id: name, name, aliases, source: 'test', input };
+}
+
+describe('normalizeIdentifier', () => {
+  it.each([
+    ['KOI-87.01', 'K00087.01'],
+    ['KOI-87.01', 'koi 87.01'],
+    ['TOI 700.01', 'toi-700.01'],
+    ['TOI-0700.01', 'TOI 700.01'],
+    ['KIC 10593626', '10593626'],
+    ['EPIC 201367065', 'epic201367065'],
+    ['Kepler-22 b', 'kepler22b']
+  ])('treats %s and %s as the same target', (a, b) => {
+    expect(normalizeIdentifier(a)).toBe(normalizeIdentifier(b));
+  });
+
+  it('keeps different planets of a system apart', () => {
+    expect(normalizeIdentifier('KOI-87.01')).not.toBe(normalizeIdentifier('KOI-87.02'));
+    expect(normalizeIdentifier('TOI-700.01')).not.toBe(normalizeIdentifier('TOI-7000.1'));
+  });
+});
+
+describe('searchCatalog', () => {
+  const catalog = [
+    entry('Kepler-220 b', ['KOI-1000.01']),
+    entry('Kepler-22b', ['KOI-87.01', 'KIC 10593626']),
+    entry('TOI-700.01', ['TIC 150428135']),
+    entry('Sub-Kepler-22 candidate')
+  ];
+
+  it('ranks exact matches, then prefixes, then substrings', () => {
+    expect(searchCatalog(catalog, 'Kepler-22b').map((e) => e.name)).toEqual(['Kepler-22b']);
+    expect(searchCatalog(catalog, 'kepler 22').map((e) => e.name)).toEqual([
+      'Kepler-220 b',
+      'Kepler-22b',
+      'Sub-Kepler-22 candidate'
+    ]);
+  });
+
+  it('finds entries by any alias spelling', () => {
+    expect(searchCatalog(catalog, 'K00087.01').map((e) => e.name)).toEqual(['Kepler-22b']);
+    expect(searchCatalog(catalog, '10593626').map((e) => e.name)).toEqual(['Kepler-22b']);
+    expect(searchCatalog(catalog, 'toi 700.01').map((e) => e.name)).toEqual(['TOI-700.01']);
+  });
+
+  it('returns nothing for a blank query and respects the limit', () => {
+    expect(searchCatalog(catalog, '  ')).toEqual([]);
+    expect(searchCatalog(catalog, 'kepler', 2)).toHaveLength(2);
+  });
+});
+
+describe('getCatalog', () => {
+  const references = getCatalog().filter((e) => e.source === REFERENCE_SOURCE);
+
+  it.each(['Kepler-22b', 'KOI-87.01', 'KIC 10593626', 'KOI-72.01', 'KIC 8120608', 'TrES-2 b', 'koi 2.01'])(
+    'resolves %s to the target it names',
+    (query) => {
+      const [first] = searchCatalog(references, query);
+      expect([first.name, ...first.aliases].map(normalizeIdentifier)).toContain(normalizeIdentifier(query));
+    }
+  );
+
+  it('only bundles physically consistent targets', () => {
+    for (const entry of references) expect(checkConsistency(entry.input), entry.name).toEqual([]);
+  });
+});
@@ -0,0 +1,117 @@
+import { CatalogEntry } from '../types';
+import { referenceTargets } from '../data/referenceTargets';
+import { predictionInputFromRow } from './prediction';
+
+const STORAGE_KEY = 'astrokit_catalog_upload';
+export const REFERENCE_SOURCE = 'Reference targets';
+// Keeps the stored index well inside the localStorage quota
+const MAX_UPLOAD_ENTRIES = 5000;
+
+// Identifier columns of the NASA Exoplanet Archive KOI, TOI and K2 tables, most specific first
+const identifierColumns = ['kepoi_name', 'kepler_name', 'toi', 'tid', 'epic_candname', 'epic_hostname', 'epic', 'pl_name', 'kepid'];
+const dispositionColumns = ['status', 'koi_disposition', 'tfopwg_disp', 'disposition'];
+
+/**
+ * Canonical form of an identifier for matching, so "KOI-87.01", "K00087.01"
+ * and "koi 87.01" compare equal, as do "TOI 700.01" / "toi-700.01",
+ * "KIC 10593626" / "10593626" and "EPIC 201367065" / "epic201367065".
+ */
+export function normalizeIdentifier(value: string): string {
+  const compact = value.toLowerCase().replace(/[\s_-]+/g, '');
+  const koi = compact.match(/^(?:koi|k)0*(\d+)(\.\d+)?$/);
+  if (koi) return `koi${koi[1]}${koi[2] ?? ''}`;
+  const toi = compact.match(/^toi0*(\d+)(\.\d+)?$/);
+  if (toi) return `toi${toi[1]}${toi[2] ?? ''}`;
+  // kepid columns hold the bare KIC number
+  const kic = compact.match(/^kic0*(\d+)$/);
+  if (kic) return kic[1];
+  return compact;
+}
+
+function loadUploadedEntries(): CatalogEntry[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    return JSON.parse(stored);
+  } catch (error) {
+    console.error('Failed to load uploaded catalog:', error);
+    return [];
+  }
+}
+
+/**
+ * Indexes the rows of a CSV loaded in Explorer so the Dashboard can look them
+ * up, replacing the previous upload. Rows without the six koi_* feature
+ * columns are skipped. Returns how many rows were indexed.
+ */
+export function indexUploadedRows(fileName: string, rows: Array<Record<string, string | number>>): number {
+  const entries: CatalogEntry[] = [];
+  rows.forEach((row, i) => {
+    const input = predictionInputFromRow(row);
+    if (!input || entries.length >= MAX_UPLOAD_ENTRIES) return;
+
+    const aliases = identifierColumns
+      .map((column) => row[column])
+      .filter((v) => v !== undefined && v !== '')
+      .map((v) => (typeof v === 'number' && !Number.isInteger(v) ? v.toFixed(2) : String(v)));
+    // TOI numbers parse as plain numbers in the CSV
+    if (typeof row.toi === 'number') aliases.push(`TOI-${row.toi.toFixed(2)}`);
+    const disposition = dispositionColumns.map((c) => row[c]).find((v) => typeof v === 'string' && v !== '');
+
+    entries.push({
+      id: `upload-${i + 1}`,
+      name: aliases[0] ?? `${fileName} row ${i + 1}`,
+      aliases,
+      source: fileName,
+      input,
+      disposition: typeof disposition === 'string' ? disposition.toLowerCase() : undefined
+    });
+  });
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.error('Failed to save uploaded catalog:', error);
+    return 0;
+  }
+  return entries.length;
+}
+
+// Bundled reference targets followed by the last Explorer upload
+export function getCatalog(): CatalogEntry[] {
+  const references: CatalogEntry[] = referenceTargets.map((t) => ({
+    id: t.id,
+    name: t.name,
+    aliases: [t.id, ...(t.aliases ?? [])],
+    source: REFERENCE_SOURCE,
+    input: t.input,
+    disposition: t.disposition
+  }));
+  return [...references, ...loadUploadedEntries()];
+}
+
+/**
+ * Ranks catalog entries against a typed query: exact identifier matches
+ * first, then prefix matches, then matches anywhere in the name.
+ */
+export function searchCatalog(catalog: CatalogEntry[], query: string, limit = 8): CatalogEntry[] {
+  const needle = normalizeIdentifier(query);
+  if (!needle) return [];
+
+  const scored: Array<{ entry: CatalogEntry; score: number }> = [];
+  for (const entry of catalog) {
+    const keys = [entry.name, ...entry.aliases].map(normalizeIdentifier);
+    const score = keys.some((k) => k === needle)
+      ? 3
+      : keys.some((k) => k.startsWith(needle))
+        ? 2
+        : keys.some((k) => k.includes(needle))
+          ? 1
+          : 0;
+    if (score > 0) scored.push({ entry, score });
+  }
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((s) => s.entry);
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { PredictionInput } from '../types';
+import { referenceTargets } from '../data/referenceTargets';
+import { checkConsistency, describeExpected } from './consistency';
+
+// A hot Neptune around a Sun-like star
+const consistent: PredictionInput = {
+  signalToNoise: 40,
+  transitDepth: 1300,
+  orbitalPeriod: 4,
+  transitDuration: 3,
+  planetRadius: 4,
+  planetTemperature: 1200,
+  starRadius: 1,
+  starMass: 1,
+  starTemperature: 5800
+};
+
+function fields(input: PredictionInput) {
+  return checkConsistency(input).map((w) => w.field);
+}
+
+describe('checkConsistency', () => {
+  it('accepts a physically consistent transit', () => {
+    expect(checkConsistency(consistent)).toEqual([]);
+  });
+
+  it('accepts Kepler-22b', () => {
+    const kepler22b = referenceTargets.find((t) => t.id === 'kepler-22b');
+    expect(checkConsistency(kepler22b!.input)).toEqual([]);
+  });
+
+  it('flags an orbit inside the star', () => {
+    expect(fields({ ...consistent, orbitalPeriod: 0.05 })).toContain('orbitalPeriod');
+  });
+
+  it('flags a transit longer than the orbit allows', () => {
+    expect(fields({ ...consistent, transitDuration: 30 })).toEqual(['transitDuration']);
+  });
+
+  it('flags a depth the planet radius cannot produce', () => {
+    const warnings = checkConsistency({ ...consistent, transitDepth: 50000 });
+    expect(warnings.map((w) => w.field)).toEqual(['transitDepth']);
+    expect(warnings[0].expected.max).toBeGreaterThan(1300);
+    expect(warnings[0].expected.max).toBeLessThan(50000);
+  });
+
+  it('flags temperatures outside what the orbit allows, both ways', () => {
+    expect(fields({ ...consistent, planetTemperature: 100 })).toEqual(['planetTemperature']);
+    expect(fields({ ...consistent, planetTemperature: 5000 })).toEqual(['planetTemperature']);
+  });
+
+  it('assumes a broad main-sequence star when none is entered', () => {
+    const withoutStar = { ...consistent, starRadius: undefined, starMass: undefined, starTemperature: undefined };
+    expect(checkConsistency(withoutStar)).toEqual([]);
+    expect(checkConsistency({ ...withoutStar, transitDuration: 30 })[0].message).toContain('main-sequence');
+  });
+
+  it('describes the expected range of a warning', () => {
+    const [warning] = checkConsistency({ ...consistent, transitDuration: 30 });
+    expect(describeExpected(warning)).toMatch(/^expected at most [\d.]+ hours$/);
+  });
+});
@@ -0,0 +1,123 @@
+import { ConsistencyWarning, PredictionInput } from '../types';
+import {
+  SOLAR_RADIUS,
+  EARTH_RADIUS,
+  semiMajorAxis,
+  orbitalPeriodDays,
+  maxTransitDurationHours,
+  transitDepthPpm,
+  planetRadiusFromDepth,
+  equilibriumTemperature
+} from './astrophysics';
+
+// Main-sequence FGK/early-K ranges assumed for any stellar parameter that wasn't entered
+const ASSUMED_STAR = {
+  radius: [0.6, 1.5],
+  mass: [0.6, 1.3],
+  temperature: [3900, 6500]
+};
+
+// Headroom for eccentric orbits, where a transit near periastron/apoastron runs shorter/longer
+const DURATION_TOLERANCE = 1.25;
+// Limb darkening makes central transits up to ~1.5× deeper than (Rp/R*)²; grazing ones and
+// light from companions make them shallower
+const DEPTH_RANGE = [0.3, 1.5];
+// Bond albedo 0–0.7, up to dayside-only re-radiation ((8/3)^¼ ≈ 1.28× the even-redistribution value)
+const MAX_ALBEDO = 0.7;
+const DAYSIDE_FACTOR = 1.28;
+
+function fmt(value: number): string {
+  return Math.abs(value) >= 1000 ? value.toFixed(0) : String(Number(value.toPrecision(3)));
+}
+
+function positive(value: number | undefined): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function range(entered: number | undefined, assumed: number[]): [number, number] {
+  return positive(entered) ? [entered, entered] : [assumed[0], assumed[1]];
+}
+
+/**
+ * Checks the transit parameters against each other: transit geometry for the
+ * duration and depth, and Kepler's third law for the orbit and equilibrium
+ * temperature. Stellar parameters that weren't entered are taken from a broad
+ * main-sequence range, so only clearly impossible combinations are flagged.
+ */
+export function checkConsistency(input: PredictionInput): ConsistencyWarning[] {
+  const warnings: ConsistencyWarning[] = [];
+  const { orbitalPeriod: period, transitDuration: duration, transitDepth: depth } = input;
+  const planetRadius = positive(input.planetRadius) ? input.planetRadius : 0;
+
+  const [minRadius, maxRadius] = range(input.starRadius, ASSUMED_STAR.radius);
+  const [minMass, maxMass] = range(input.starMass, ASSUMED_STAR.mass);
+  const [minTemp, maxTemp] = range(input.starTemperature, ASSUMED_STAR.temperature);
+  const assumedNote = ' (assuming a main-sequence host star)';
+  const starNote = positive(input.starRadius) && positive(input.starMass) ? '' : assumedNote;
+
+  if (positive(period)) {
+    // Closest orbit the planet could have without skimming the star: smallest, most massive host
+    const minReach = minRadius * SOLAR_RADIUS + planetRadius * EARTH_RADIUS;
+    if (semiMajorAxis(period, maxMass) <= minReach) {
+      const minPeriod = orbitalPeriodDays(minReach, maxMass);
+      warnings.push({
+        field: 'orbitalPeriod',
+        message: `A ${fmt(period)}-day orbit would lie inside the star${starNote}.`,
+        expected: { min: minPeriod, unit: 'days' }
+      });
+    } else if (positive(duration)) {
+      // Longest transit: largest, least massive host
+      const maxDuration = maxTransitDurationHours(period, maxRadius, minMass, planetRadius) * DURATION_TOLERANCE;
+      if (Number.isFinite(maxDuration) && duration > maxDuration) {
+        warnings.push({
+          field: 'transitDuration',
+          message: `A ${fmt(duration)} h transit is longer than any transit on a ${fmt(period)}-day orbit can last${starNote}.`,
+          expected: { max: maxDuration, unit: 'hours' }
+        });
+      }
+    }
+  }
+
+  if (positive(depth) && planetRadius > 0) {
+    const minDepth = transitDepthPpm(planetRadius, maxRadius) * DEPTH_RANGE[0];
+    const maxDepth = transitDepthPpm(planetRadius, minRadius) * DEPTH_RANGE[1];
+    if (depth < minDepth || depth > maxDepth) {
+      const impliedRadius = planetRadiusFromDepth(depth, (minRadius + maxRadius) / 2);
+      warnings.push({
+        field: 'transitDepth',
+        message:
+          `A ${fmt(planetRadius)} R⊕ planet can't produce a ${fmt(depth)} ppm transit${starNote}; ` +
+          `that depth implies a planet of about ${fmt(impliedRadius)} R⊕.`,
+        expected: { min: minDepth, max: maxDepth, unit: 'ppm' }
+      });
+    }
+  }
+
+  const temperature = input.planetTemperature;
+  if (positive(period) && positive(temperature)) {
+    const coolest = equilibriumTemperature(minTemp, minRadius, semiMajorAxis(period, maxMass), MAX_ALBEDO);
+    const hottest = equilibriumTemperature(maxTemp, maxRadius, semiMajorAxis(period, minMass)) * DAYSIDE_FACTOR;
+    if (temperature < coolest || temperature > hottest) {
+      warnings.push({
+        field: 'planetTemperature',
+        message:
+          `${fmt(temperature)} K is ${temperature < coolest ? 'too cold' : 'too hot'} for a planet on a ` +
+          `${fmt(period)}-day orbit${positive(input.starTemperature) ? starNote : assumedNote}.`,
+        expected: { min: coolest, max: hottest, unit: 'K' }
+      });
+    }
+  }
+
+  return warnings;
+}
+
+// "expected 70–2190 ppm" style summary of a warning's expected range
+export function describeExpected({ expected }: ConsistencyWarning): string {
+  const unit = expected.unit ? ` ${expected.unit}` : '';
+  if (expected.min !== undefined && expected.max !== undefined) {
+    return `expected ${fmt(expected.min)}–${fmt(expected.max)}${unit}`;
+  }
+  if (expected.max !== undefined) return `expected at most ${fmt(expected.max)}${unit}`;
+  if (expected.min !== undefined) return `expected at least ${fmt(expected.min)}${unit}`;
+  return '';
+}
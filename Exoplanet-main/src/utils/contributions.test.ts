@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PredictionInput, PredictionResult } from '../types';
+import { testForest } from '../test/forestFixture';
+import { trainingEnvelopes } from '../data/trainingEnvelopes';
+import { explainPrediction, medianProbeBreakdown, medianProbeCount, treePathBreakdown } from './contributions';
+import { loadForest } from './forest';
+import { generatePrediction } from './prediction';
+
+vi.mock('./forest', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./forest')>()),
+  loadForest: vi.fn()
+}));
+vi.mock('./prediction', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./prediction')>()),
+  generatePrediction: vi.fn()
+}));
+
+const input: PredictionInput = {
+  signalToNoise: 25,
+  transitDepth: 800,
+  orbitalPeriod: 10,
+  transitDuration: 3,
+  planetRadius: 2,
+  planetTemperature: 800
+};
+
+// The fixture forest gives this input P(candidate) = (0.9 + 0.7) / 2
+function modelResult(candidate: number): PredictionResult {
+  return {
+    status: 'candidate',
+    confidence: candidate,
+    explanation: '',
+    source: 'model',
+    probabilities: { candidate, false_positive: 1 - candidate },
+    featureImportance: [
+      { feature: 'koi_model_snr', importance: 0.6 },
+      { feature: 'koi_depth', importance: 0.4 }
+    ]
+  };
+}
+
+beforeEach(() => {
+  vi.mocked(loadForest).mockResolvedValue(testForest);
+});
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('treePathBreakdown', () => {
+  it('splits a result the bundled forest reproduces along its decision paths', async () => {
+    const breakdown = await treePathBreakdown(input, 'Kepler', modelResult(0.8));
+    expect(breakdown).toMatchObject({ method: 'tree_path', base: 0.55 });
+    expect(breakdown!.total).toBeCloseTo(0.8);
+    expect(breakdown!.contributions.map((c) => [c.field, Number(c.contribution.toFixed(6))])).toEqual([
+      ['signalToNoise', 0.15],
+      ['transitDepth', 0.1]
+    ]);
+  });
+
+  it('is null when the forest is off from the reported result by more than the tolerance', async () => {
+    expect(await treePathBreakdown(input, 'Kepler', modelResult(0.805))).not.toBeNull();
+    expect(await treePathBreakdown(input, 'Kepler', modelResult(0.85))).toBeNull();
+  });
+
+  it('is null without a bundled forest', async () => {
+    vi.mocked(loadForest).mockResolvedValue(null);
+    expect(await treePathBreakdown(input, 'Kepler', modelResult(0.8))).toBeNull();
+  });
+});
+
+describe('explainPrediction', () => {
+  it('splits the offline heuristic exactly, down to its confidence', async () => {
+    const result: PredictionResult = { status: 'candidate', confidence: 0.72, explanation: '', source: 'offline_heuristic' };
+    const breakdown = await explainPrediction(input, 'K2', result);
+    expect(breakdown?.method).toBe('heuristic_weights');
+    expect(breakdown!.total).toBeCloseTo(0.72);
+  });
+
+  it('never asks the backend, even when the forest can’t explain a model result', async () => {
+    expect(await explainPrediction(input, 'Kepler', modelResult(0.3))).toBeNull();
+    expect(generatePrediction).not.toHaveBeenCalled();
+  });
+
+  it('has nothing to say about the backend’s own heuristic', async () => {
+    const result: PredictionResult = { status: 'unknown', confidence: 0.5, explanation: '', source: 'server_heuristic' };
+    expect(await explainPrediction(input, 'Kepler', result)).toBeNull();
+  });
+});
+
+describe('medianProbeBreakdown', () => {
+  const medians = trainingEnvelopes.Kepler;
+
+  // P(candidate) 0.3, plus 0.4 while SNR is as entered and 0.2 while depth is
+  beforeEach(() => {
+    vi.mocked(generatePrediction).mockImplementation(async (probe) => {
+      const candidate = 0.3 + (probe.signalToNoise === input.signalToNoise ? 0.4 : 0) + (probe.transitDepth === input.transitDepth ? 0.2 : 0);
+      return { ...modelResult(candidate), confidence: candidate };
+    });
+  });
+
+  it('resets each important input to its training median without recording the runs', async () => {
+    const breakdown = await medianProbeBreakdown(input, 'Kepler', modelResult(0.9));
+
+    expect(medianProbeCount(input, modelResult(0.9))).toBe(3);
+    expect(generatePrediction).toHaveBeenCalledTimes(3);
+    for (const [probe, model, , options] of vi.mocked(generatePrediction).mock.calls) {
+      expect(model).toBe('Kepler');
+      expect(options).toEqual({ record: false });
+      expect([input.signalToNoise, medians.signalToNoise?.p50]).toContain(probe.signalToNoise);
+    }
+
+    expect(breakdown).toMatchObject({ method: 'median_probe', base: 0.3 });
+    expect(breakdown!.total).toBeCloseTo(0.9);
+    expect(breakdown!.contributions.map((c) => [c.label, Number(c.contribution.toFixed(6))])).toEqual([
+      ['Signal-to-Noise Ratio', 0.4],
+      ['Transit Depth', 0.2],
+      ['Interactions', 0]
+    ]);
+  });
+
+  it('fails rather than mixing in a fallback answer', async () => {
+    vi.mocked(generatePrediction).mockResolvedValue({ ...modelResult(0.5), source: 'offline_heuristic' });
+    await expect(medianProbeBreakdown(input, 'Kepler', modelResult(0.9))).rejects.toThrow(/stopped answering/);
+  });
+
+  it('does not probe results without feature importances', async () => {
+    const result = { ...modelResult(0.9), featureImportance: undefined };
+    expect(medianProbeCount(input, result)).toBe(0);
+    expect(await medianProbeBreakdown(input, 'Kepler', result)).toBeNull();
+    expect(generatePrediction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,234 @@
+import { AdvancedField, CoreFeature, ModelType, PredictionInput, PredictionResult } from '../types';
+import { inputFieldInfo, flagFieldInfo } from '../data/inputFields';
+import { featureLabels } from '../data/models';
+import { advancedFeatureColumns, featureColumns, generatePrediction, heuristicModelBonus, heuristicTerms } from './prediction';
+import { loadForest, pathContributions } from './forest';
+import { loadEnvelope } from './envelope';
+import { mapWithConcurrency } from './batch';
+
+// Same ceiling Explorer uses for its batch runs
+const PROBE_CONCURRENCY = 4;
+// Classes counted as "candidate" when summing model probabilities
+const CANDIDATE_CLASSES = ['candidate', 'confirmed'];
+// Largest gap between a tree-path total and the reported P(candidate) for the bundled forest to count as the same model
+const TREE_PATH_TOLERANCE = 0.01;
+
+// How a breakdown was worked out; see explainPrediction
+export type ContributionMethod = 'heuristic_weights' | 'tree_path' | 'median_probe';
+
+export interface FeatureContribution {
+  // Input the term belongs to; null for terms no single input owns (mission bonus, noise, interactions)
+  field: keyof PredictionInput | null;
+  label: string;
+  // Change in the explained quantity; positive pushes toward candidate
+  contribution: number;
+  // Set for inputs the model used without the user entering them
+  notEntered?: boolean;
+}
+
+export interface ContributionBreakdown {
+  method: ContributionMethod;
+  // What the bars add up to, e.g. "P(candidate)"
+  quantity: string;
+  // Starting point of the waterfall and what it stands for
+  base: number;
+  baseLabel: string;
+  // Largest effect first; residual terms (noise, interactions) last
+  contributions: FeatureContribution[];
+  // base + Σ contributions
+  total: number;
+}
+
+const columnFields = new Map<string, keyof PredictionInput>([
+  ...(Object.entries(featureColumns) as Array<[CoreFeature, string]>).map(
+    ([field, column]) => [column, field] as [string, keyof PredictionInput]
+  ),
+  ...(Object.entries(advancedFeatureColumns) as Array<[AdvancedField, string]>).map(
+    ([field, column]) => [column, field] as [string, keyof PredictionInput]
+  )
+]);
+
+function fieldLabel(field: keyof PredictionInput): string {
+  return field in inputFieldInfo
+    ? inputFieldInfo[field as keyof typeof inputFieldInfo].label
+    : flagFieldInfo[field as keyof typeof flagFieldInfo].label;
+}
+
+function candidateProbability(probabilities: Record<string, number>): number {
+  return CANDIDATE_CLASSES.reduce((sum, name) => sum + (probabilities[name] ?? 0), 0);
+}
+
+function breakdown(
+  method: ContributionMethod,
+  quantity: string,
+  base: number,
+  baseLabel: string,
+  contributions: FeatureContribution[]
+): ContributionBreakdown {
+  return {
+    method,
+    quantity,
+    base,
+    baseLabel,
+    // Inputs by size of effect, then the terms no input owns in the order given
+    contributions: contributions.sort((a, b) =>
+      a.field === null || b.field === null
+        ? Number(a.field === null) - Number(b.field === null)
+        : Math.abs(b.contribution) - Math.abs(a.contribution)
+    ),
+    total: contributions.reduce((sum, c) => sum + c.contribution, base)
+  };
+}
+
+/**
+ * The in-browser heuristic is a weighted sum, so its breakdown is exact. Each
+ * term is measured from the middle of its range (half its weight), so an input
+ * scoring below the middle counts against candidate; the noise the heuristic
+ * adds, clamping and rounding make up the remainder.
+ */
+function heuristicBreakdown(input: PredictionInput, model: ModelType, result: PredictionResult): ContributionBreakdown {
+  const terms = heuristicTerms(input);
+  const base = terms.reduce((sum, t) => sum + t.weight / 2, 0);
+  const contributions: FeatureContribution[] = terms.map((t) => ({
+    field: t.field,
+    label: fieldLabel(t.field),
+    contribution: (t.score - 0.5) * t.weight
+  }));
+  contributions.push({ field: null, label: `${model} mission bonus`, contribution: heuristicModelBonus[model] });
+
+  const explained = contributions.reduce((sum, c) => sum + c.contribution, base);
+  contributions.push({ field: null, label: 'Noise and rounding', contribution: result.confidence - explained });
+  return breakdown('heuristic_weights', 'Heuristic score', base, 'Every input mid-range', contributions);
+}
+
+/**
+ * Exact breakdown of a Random Forest prediction from the exported copy of the
+ * mission's forest (see pathContributions). Null when no export is bundled, it
+ * predates per-node values, or its total doesn't reproduce the P(candidate)
+ * being explained (e.g. the backend has been retrained since the export).
+ */
+export async function treePathBreakdown(
+  input: PredictionInput,
+  model: ModelType,
+  result: PredictionResult
+): Promise<ContributionBreakdown | null> {
+  const forest = await loadForest(model);
+  const split = forest && pathContributions(forest, input);
+  if (!forest || !split) return null;
+
+  const candidate = forest.classes.map((name) => CANDIDATE_CLASSES.includes(name.toLowerCase()));
+  const sumCandidate = (values: number[]) => values.reduce((sum, v, i) => (candidate[i] ? sum + v : sum), 0);
+
+  const contributions = forest.features.map((column, i): FeatureContribution => {
+    const field = columnFields.get(column) ?? null;
+    return {
+      field,
+      label: field ? fieldLabel(field) : featureLabels[column] ?? column,
+      contribution: sumCandidate(split.contributions[i]),
+      notEntered: field ? input[field] === undefined : undefined
+    };
+  });
+  const explained = breakdown('tree_path', 'P(candidate)', sumCandidate(split.bias), 'Training base rate', contributions);
+  if (!result.probabilities) return explained;
+  const reported = candidateProbability(result.probabilities);
+  return Math.abs(explained.total - reported) <= TREE_PATH_TOLERANCE ? explained : null;
+}
+
+// Core inputs a median probe would reset: those the model reports importance for
+function probedFields(input: PredictionInput, result: PredictionResult): CoreFeature[] {
+  if (result.source !== 'model' || !result.probabilities) return [];
+  return (result.featureImportance ?? [])
+    .map((f) => columnFields.get(f.feature))
+    .filter((field): field is CoreFeature => field !== undefined && field in featureColumns && typeof input[field] === 'number');
+}
+
+// Most backend runs medianProbeBreakdown would make for this result; 0 when it can't probe it
+export function medianProbeCount(input: PredictionInput, result: PredictionResult): number {
+  const fields = probedFields(input, result);
+  return fields.length ? fields.length + 1 : 0;
+}
+
+/**
+ * For backend results the bundled forest can't explain: re-asks the backend
+ * with each input the model reports importance for reset to its training
+ * median, once per input and once with all of them reset. The last run is the
+ * baseline; each input's contribution is how far resetting it alone moves
+ * P(candidate), and what that leaves unexplained is shown as interactions.
+ * The probe runs aren't recorded in the backend's history, but they ask the
+ * backend as it is now, so this is only offered for fresh results and only
+ * when the user asks for it.
+ */
+export async function medianProbeBreakdown(
+  input: PredictionInput,
+  model: ModelType,
+  result: PredictionResult,
+  signal?: AbortSignal
+): Promise<ContributionBreakdown | null> {
+  const fields = probedFields(input, result);
+  if (!fields.length || !result.probabilities) return null;
+  const envelope = await loadEnvelope(model);
+
+  const medians: Partial<Record<CoreFeature, number>> = {};
+  for (const field of fields) {
+    const range = envelope.features[field];
+    if (range) medians[field] = range.p50;
+  }
+  const probed = Object.keys(medians) as CoreFeature[];
+  if (probed.length === 0) return null;
+
+  const reset = (fields: CoreFeature[]): PredictionInput => {
+    const probe = { ...input };
+    for (const field of fields) probe[field] = medians[field] as number;
+    return probe;
+  };
+  const probes = [...probed.map((field) => reset([field])), reset(probed)];
+
+  const outcomes = await mapWithConcurrency(
+    probes,
+    PROBE_CONCURRENCY,
+    async (probe) => {
+      const outcome = await generatePrediction(probe, model, signal, { record: false });
+      // A fallback answer would compare a different model against this one
+      if (outcome.source !== result.source || !outcome.probabilities) {
+        throw new Error('The backend stopped answering while the breakdown was being worked out.');
+      }
+      return candidateProbability(outcome.probabilities);
+    },
+    signal
+  );
+
+  const full = candidateProbability(result.probabilities);
+  const base = outcomes[outcomes.length - 1];
+  const contributions: FeatureContribution[] = probed.map((field, i) => ({
+    field,
+    label: fieldLabel(field),
+    contribution: full - outcomes[i]
+  }));
+  const explained = contributions.reduce((sum, c) => sum + c.contribution, base);
+  contributions.push({ field: null, label: 'Interactions', contribution: full - explained });
+  return breakdown('median_probe', 'P(candidate)', base, 'Inputs at training medians', contributions);
+}
+
+/**
+ * Works out which inputs pushed a prediction toward candidate or false
+ * positive, and by how much, without contacting the backend. Heuristic results
+ * are split along their weight terms; model results along the forest's
+ * decision paths when this build bundles the mission's forest and it
+ * reproduces the result. Resolves to null when neither applies; backend
+ * results can then be probed on request (see medianProbeBreakdown).
+ */
+export async function explainPrediction(
+  input: PredictionInput,
+  model: ModelType,
+  result: PredictionResult
+): Promise<ContributionBreakdown | null> {
+  switch (result.source) {
+    case 'offline_heuristic':
+      return heuristicBreakdown(input, model, result);
+    case 'offline_model':
+    case 'model':
+      return treePathBreakdown(input, model, result);
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,82 @@
+export type CsvRow = Record<string, string | number>;
+
+// Quotes a cell when it holds a comma, quote or line break, doubling any quotes inside
+function escapeCell(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: unknown[][]): string {
+  return rows.map((row) => row.map(escapeCell).join(',')).join('\n');
+}
+
+// Splits CSV text into rows of cells, honouring quoted cells (RFC 4180)
+function splitCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ''));
+}
+
+/**
+ * Parses CSV text with a header row into one object per row. Numeric cells
+ * become numbers; everything else stays a trimmed string. Lines starting with
+ * `#` (the NASA Exoplanet Archive's metadata header) are skipped.
+ */
+export function parseCsv(text: string): CsvRow[] {
+  const [headerRow, ...body] = splitCsv(text).filter((r) => !r[0]?.startsWith('#'));
+  if (!headerRow) return [];
+  const headers = headerRow.map((h) => h.trim());
+
+  return body.map((cells) => {
+    const row: CsvRow = {};
+    headers.forEach((h, i) => {
+      const raw = (cells[i] ?? '').trim();
+      const num = Number(raw);
+      row[h] = raw !== '' && !Number.isNaN(num) ? num : raw;
+    });
+    return row;
+  });
+}
+
+// Saves `content` as a file through a temporary object URL
+export function downloadFile(content: string, type: string, fileName: string): void {
+  const url = window.URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  window.URL.revokeObjectURL(url);
+}
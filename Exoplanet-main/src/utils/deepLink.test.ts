@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { PredictionInput } from '../types';
+import { decodeDeepLink, deepLinkUrl, encodeDeepLink, historyEntryUrl } from './deepLink';
+
+const input: PredictionInput = {
+  signalToNoise: 35.8,
+  transitDepth: 492,
+  orbitalPeriod: 289.9,
+  transitDuration: 7.4,
+  planetRadius: 2.4,
+  planetTemperature: 262
+};
+
+describe('encodeDeepLink / decodeDeepLink', () => {
+  it('round-trips an analysis', () => {
+    expect(decodeDeepLink(encodeDeepLink({ model: 'Kepler', input }))).toEqual({ model: 'Kepler', input });
+    expect(decodeDeepLink(encodeDeepLink({ model: null, input }))).toEqual({ model: null, input });
+  });
+
+  it('rejects unknown missions and missing core parameters', () => {
+    const params = encodeDeepLink({ model: 'Kepler', input });
+    params.set('model', 'Hubble');
+    expect(decodeDeepLink(params)).toBeNull();
+
+    const partial = encodeDeepLink({ model: 'Kepler', input });
+    partial.delete('transitDepth');
+    expect(decodeDeepLink(partial)).toBeNull();
+  });
+});
+
+describe('deepLinkUrl / historyEntryUrl', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps the base path the app is served from', () => {
+    vi.stubGlobal('window', { location: { origin: 'https://example.org' } });
+    vi.stubEnv('BASE_URL', '/astrokit/');
+
+    expect(deepLinkUrl({ model: 'TESS', input })).toMatch(/^https:\/\/example\.org\/astrokit\/\?model=TESS&/);
+    expect(historyEntryUrl('server-7')).toBe('https://example.org/astrokit/history/server-7');
+  });
+});
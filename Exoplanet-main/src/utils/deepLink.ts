@@ -0,0 +1,72 @@
+import { ModelType, PredictionInput } from '../types';
+import { apiFieldNames, toPredictionInput } from '../services/contract';
+import { flagFieldInfo } from '../data/inputFields';
+import { models } from '../data/models';
+
+// `model` holds a ModelType, or this for the all-missions mode
+const ALL_MISSIONS = 'all';
+
+export interface DeepLinkState {
+  // null for all missions at once
+  model: ModelType | null;
+  input: PredictionInput;
+}
+
+/**
+ * Encodes a Dashboard analysis as query parameters named after the
+ * PredictionInput fields, e.g. `?model=Kepler&signalToNoise=35.8&...`.
+ * Flags are written as 1/0.
+ */
+export function encodeDeepLink({ model, input }: DeepLinkState): URLSearchParams {
+  const params = new URLSearchParams({ model: model ?? ALL_MISSIONS });
+  for (const key of Object.keys(apiFieldNames) as Array<keyof PredictionInput>) {
+    const value = input[key];
+    if (typeof value === 'boolean') params.set(key, value ? '1' : '0');
+    else if (typeof value === 'number' && Number.isFinite(value)) params.set(key, String(value));
+  }
+  return params;
+}
+
+/**
+ * Reads an analysis back from the query string. Returns null unless the
+ * mission is known and all six core parameters are present and numeric;
+ * unknown or malformed optional fields are dropped.
+ */
+export function decodeDeepLink(params: URLSearchParams): DeepLinkState | null {
+  const modelParam = params.get('model');
+  if (!modelParam || (modelParam !== ALL_MISSIONS && !(modelParam in models))) return null;
+
+  const values: Record<string, number | boolean> = {};
+  for (const key of Object.keys(apiFieldNames)) {
+    const raw = params.get(key);
+    if (raw === null || raw === '') continue;
+    if (key in flagFieldInfo) {
+      values[key] = raw === '1' || raw === 'true';
+    } else {
+      const value = Number(raw);
+      if (Number.isFinite(value)) values[key] = value;
+    }
+  }
+  const input = toPredictionInput(values);
+  if (!input) return null;
+
+  return {
+    model: modelParam === ALL_MISSIONS ? null : (modelParam as ModelType),
+    input
+  };
+}
+
+// Absolute URL of an app route, under the base path the build is served from
+function appUrl(path: string): string {
+  return new URL(path, new URL(import.meta.env.BASE_URL, window.location.origin)).toString();
+}
+
+// Absolute Dashboard URL that restores the analysis when opened
+export function deepLinkUrl(state: DeepLinkState): string {
+  return appUrl(`?${encodeDeepLink(state)}`);
+}
+
+// Absolute URL of a stored prediction's /history/:id page
+export function historyEntryUrl(id: string): string {
+  return appUrl(`history/${encodeURIComponent(id)}`);
+}
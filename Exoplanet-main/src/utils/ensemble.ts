@@ -0,0 +1,35 @@
+import { EnsembleConsensus, ModelType, PredictionResult } from '../types';
+
+type Status = PredictionResult['status'];
+
+/**
+ * Combines per-mission verdicts into a majority vote and a
+ * confidence-weighted vote. Any two missions disagreeing sets `disagreement`.
+ */
+export function computeConsensus(results: Partial<Record<ModelType, PredictionResult>>): EnsembleConsensus | null {
+  const verdicts = Object.values(results).filter((r): r is PredictionResult => r != null);
+  if (verdicts.length === 0) return null;
+
+  const votes: Partial<Record<Status, number>> = {};
+  const weights: Partial<Record<Status, number>> = {};
+  for (const r of verdicts) {
+    votes[r.status] = (votes[r.status] ?? 0) + 1;
+    weights[r.status] = (weights[r.status] ?? 0) + r.confidence;
+  }
+
+  const ranked = (Object.entries(votes) as Array<[Status, number]>).sort((a, b) => b[1] - a[1]);
+  const tied = ranked.length > 1 && ranked[0][1] === ranked[1][1];
+
+  const totalWeight = Object.values(weights).reduce((sum, w) => sum + (w ?? 0), 0);
+  const [weighted, weight] = (Object.entries(weights) as Array<[Status, number]>).reduce((best, entry) =>
+    entry[1] > best[1] ? entry : best
+  );
+
+  return {
+    majority: tied ? 'unknown' : ranked[0][0],
+    majorityVotes: ranked[0][1],
+    weighted,
+    weightedShare: totalWeight > 0 ? weight / totalWeight : 0,
+    disagreement: ranked.length > 1
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from 'vitest';
+import { FeatureEnvelope, PredictionInput } from '../types';
+import { MissionEnvelope, checkEnvelope, loadEnvelope } from './envelope';
+import { trainingEnvelopes } from '../data/trainingEnvelopes';
+import * as forest from './forest';
+
+const input: PredictionInput = {
+  signalToNoise: 30,
+  transitDepth: 1000,
+  orbitalPeriod: 10,
+  transitDuration: 3,
+  planetRadius: 2.5,
+  planetTemperature: 800
+};
+
+function range(p50: number): FeatureEnvelope {
+  return { min: p50 / 100, p1: p50 / 10, p50, p99: p50 * 10, max: p50 * 100 };
+}
+
+// An envelope centred on `centre`, so inputs equal to it fit perfectly
+function envelopeAround(centre: PredictionInput): MissionEnvelope {
+  return {
+    exact: true,
+    features: {
+      signalToNoise: range(centre.signalToNoise),
+      transitDepth: range(centre.transitDepth),
+      orbitalPeriod: range(centre.orbitalPeriod),
+      transitDuration: range(centre.transitDuration),
+      planetRadius: range(centre.planetRadius),
+      planetTemperature: range(centre.planetTemperature)
+    }
+  };
+}
+
+describe('checkEnvelope', () => {
+  const envelope = envelopeAround(input);
+
+  it('passes inputs inside the 1st–99th percentile', () => {
+    expect(checkEnvelope(input, envelope)).toEqual([]);
+    expect(checkEnvelope({ ...input, orbitalPeriod: 99 }, envelope)).toEqual([]);
+  });
+
+  it('marks values beyond the percentiles as sparse and beyond min/max as outside', () => {
+    const flags = checkEnvelope({ ...input, orbitalPeriod: 0.5, planetRadius: 500 }, envelope);
+    expect(flags).toEqual([
+      expect.objectContaining({ field: 'planetRadius', severity: 'outside', direction: 'above' }),
+      expect.objectContaining({ field: 'orbitalPeriod', severity: 'sparse', direction: 'below' })
+    ]);
+  });
+
+  it('skips features the envelope has no range for', () => {
+    const { signalToNoise, ...rest } = envelope.features;
+    expect(signalToNoise).toBeDefined();
+    expect(checkEnvelope({ ...input, signalToNoise: 1e6 }, { exact: false, features: rest })).toEqual([]);
+  });
+});
+
+describe('loadEnvelope', () => {
+  it('falls back to the bundled ranges, marked as approximate, without a forest export', async () => {
+    vi.spyOn(forest, 'loadForest').mockResolvedValue(null);
+    expect(await loadEnvelope('K2')).toEqual({ features: trainingEnvelopes.K2, exact: false });
+  });
+});
@@ -0,0 +1,63 @@
+import { CoreFeature, EnvelopeFlag, FeatureEnvelope, ModelType, PredictionInput, UnitPreferences } from '../types';
+import { trainingEnvelopes, trainingEnvelopesExact } from '../data/trainingEnvelopes';
+import { inputFieldInfo } from '../data/inputFields';
+import { featureColumns } from './prediction';
+import { loadForest } from './forest';
+import { formatInUnits } from './units';
+
+export interface MissionEnvelope {
+  features: Partial<Record<CoreFeature, FeatureEnvelope>>;
+  // False while the ranges are the bundled, hand-rounded fallback
+  exact: boolean;
+}
+
+// The exported forest's ranges when this build ships one, else the bundled fallback (data/trainingEnvelopes)
+export async function loadEnvelope(model: ModelType): Promise<MissionEnvelope> {
+  const exported = (await loadForest(model))?.envelope;
+  if (!exported) return { features: trainingEnvelopes[model], exact: trainingEnvelopesExact };
+
+  const features: MissionEnvelope['features'] = {};
+  for (const [key, column] of Object.entries(featureColumns) as Array<[CoreFeature, string]>) {
+    if (exported[column]) features[key] = exported[column];
+  }
+  return { features, exact: true };
+}
+
+/**
+ * Flags the core inputs that fall outside the training data, most severe
+ * first. Values beyond the 1st/99th percentile are 'sparse' (the model saw
+ * few rows like them); values beyond the training min/max are 'outside' (the
+ * forest extrapolates, scoring them like its most extreme training rows).
+ */
+export function checkEnvelope(input: PredictionInput, envelope: MissionEnvelope): EnvelopeFlag[] {
+  const flags: EnvelopeFlag[] = [];
+  for (const [field, range] of Object.entries(envelope.features) as Array<[CoreFeature, FeatureEnvelope]>) {
+    const value = input[field];
+    if (typeof value !== 'number' || !Number.isFinite(value)) continue;
+
+    if (value < range.p1 || value > range.p99) {
+      const direction = value < range.p1 ? 'below' : 'above';
+      const outside = value < range.min || value > range.max;
+      flags.push({ field, value, severity: outside ? 'outside' : 'sparse', direction, envelope: range });
+    }
+  }
+  return flags.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'outside' ? -1 : 1));
+}
+
+// "Orbital Period 3000 days is above the 99th percentile of training (520 days)" style description
+export function describeFlag(flag: EnvelopeFlag, units?: UnitPreferences): string {
+  const { field, value, severity, direction, envelope } = flag;
+  const bounds: Record<EnvelopeFlag['severity'], Record<EnvelopeFlag['direction'], [string, number]>> = {
+    outside: {
+      above: ['the largest training value', envelope.max],
+      below: ['the smallest training value', envelope.min]
+    },
+    sparse: {
+      above: ['the 99th percentile of training', envelope.p99],
+      below: ['the 1st percentile of training', envelope.p1]
+    }
+  };
+  const [reference, limit] = bounds[severity][direction];
+  const label = inputFieldInfo[field].label;
+  return `${label} ${formatInUnits(field, value, units, 4)} is ${direction} ${reference} (${formatInUnits(field, limit, units)})`;
+}
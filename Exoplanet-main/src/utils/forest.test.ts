@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { PredictionInput } from '../types';
+import { ForestExport, classifyWithForest, pathContributions, predictProbabilities } from './forest';
+import { LEAF, testForest as forest } from '../test/forestFixture';
+
+function input(signalToNoise: number, transitDepth: number): PredictionInput {
+  return { signalToNoise, transitDepth, orbitalPeriod: 10, transitDuration: 3, planetRadius: 2, planetTemperature: 800 };
+}
+
+describe('predictProbabilities', () => {
+  it('averages the leaf class fractions of every tree', () => {
+    const probabilities = predictProbabilities(forest, input(25, 300));
+    expect(probabilities['candidate']).toBeCloseTo((0.9 + 0.5) / 2);
+    expect(probabilities['false_positive']).toBeCloseTo((0.1 + 0.5) / 2);
+  });
+
+  it('sends values equal to a threshold left, as sklearn does', () => {
+    expect(predictProbabilities(forest, input(10, 500))['candidate']).toBeCloseTo((0.2 + 0.1) / 2);
+  });
+});
+
+describe('classifyWithForest', () => {
+  it('maps the most probable class onto a status', () => {
+    expect(classifyWithForest(forest, input(25, 800))).toMatchObject({ status: 'candidate', confidence: 0.8 });
+    const result = classifyWithForest(forest, input(5, 300));
+    expect(result.status).toBe('false_positive');
+    expect(result.confidence).toBeCloseTo(0.85);
+  });
+});
+
+describe('pathContributions', () => {
+  it.each([
+    [5, 300],
+    [15, 300],
+    [25, 300],
+    [25, 800],
+    [10, 500]
+  ])('adds up to predictProbabilities for snr %d, depth %d', (snr, depth) => {
+    const split = pathContributions(forest, input(snr, depth));
+    const probabilities = predictProbabilities(forest, input(snr, depth));
+    expect(split).not.toBeNull();
+
+    forest.classes.forEach((name, i) => {
+      const total = split!.contributions.reduce((sum, feature) => sum + feature[i], split!.bias[i]);
+      expect(total).toBeCloseTo(probabilities[name], 10);
+    });
+  });
+
+  it('starts from the mean root class fractions', () => {
+    expect(pathContributions(forest, input(25, 800))!.bias).toEqual([0.55, 0.45]);
+  });
+
+  it('credits each split to the feature it splits on', () => {
+    // Tree 1 moves candidate 0.6 → 0.9 on SNR; tree 2 moves it 0.5 → 0.7 on depth
+    const { contributions } = pathContributions(forest, input(25, 800))!;
+    expect(contributions[0][0]).toBeCloseTo(0.15);
+    expect(contributions[1][0]).toBeCloseTo(0.1);
+  });
+
+  it('is null for exports that only have leaf values', () => {
+    const leafOnly: ForestExport = {
+      ...forest,
+      trees: forest.trees.map((tree) => ({ ...tree, value: tree.value.map((v, i) => (tree.left[i] === LEAF ? v : null)) }))
+    };
+    expect(pathContributions(leafOnly, input(25, 800))).toBeNull();
+  });
+});
@@ -0,0 +1,169 @@
+import { AdvancedField, CoreFeature, FeatureEnvelope, ModelType, PredictionInput, PredictionResult } from '../types';
+import { advancedFeatureColumns, backendModelNames, featureColumns } from './prediction';
+
+// JSON layout written by `python manage.py export_forests` (see backend README)
+export interface ForestTree {
+  feature: number[];
+  threshold: number[];
+  left: number[];
+  right: number[];
+  // Class fractions per node; exports made before contributions were added only have them at leaves
+  value: Array<number[] | null>;
+}
+
+export interface ForestExport {
+  model: string;
+  features: string[];
+  classes: string[];
+  scaler: {
+    mean: number[];
+    scale: number[];
+  };
+  feature_importance: number[];
+  // Training feature ranges by column; missing in exports made before it was added
+  envelope?: Record<string, FeatureEnvelope>;
+  trees: ForestTree[];
+}
+
+// Same mapping the backend applies to its predicted class
+const statusMapping: Record<string, PredictionResult['status']> = {
+  candidate: 'candidate',
+  confirmed: 'candidate',
+  false_positive: 'false_positive',
+  not_dispositioned: 'unknown',
+  ambiguous: 'unknown'
+};
+
+const forestCache = new Map<ModelType, Promise<ForestExport | null>>();
+
+/**
+ * Fetches the exported forest for a mission from public/forests. Resolves to
+ * null when no export has been shipped with this build.
+ */
+export function loadForest(model: ModelType): Promise<ForestExport | null> {
+  const cached = forestCache.get(model);
+  if (cached) return cached;
+
+  const url = `${import.meta.env.BASE_URL}forests/${backendModelNames[model]}.json`;
+  const pending = fetch(url)
+    .then((response) => (response.ok ? (response.json() as Promise<ForestExport>) : null))
+    .catch((error) => {
+      console.error(`Failed to load ${model} forest export:`, error);
+      return null;
+    })
+    .then((forest) => {
+      // Don't keep a miss around; the export may be dropped in without a reload
+      if (!forest) forestCache.delete(model);
+      return forest;
+    });
+
+  forestCache.set(model, pending);
+  return pending;
+}
+
+/**
+ * Standardizes the input with the exported scaler statistics, in the order
+ * the forest was trained on. Missing features fall back to the training mean,
+ * which scales to 0.
+ */
+export function standardizeInput(forest: ForestExport, input: PredictionInput): number[] {
+  const byColumn: Record<string, number> = {};
+  for (const [key, column] of Object.entries(featureColumns) as Array<[CoreFeature, string]>) {
+    byColumn[column] = input[key];
+  }
+  for (const [key, column] of Object.entries(advancedFeatureColumns) as Array<[AdvancedField, string]>) {
+    const value = input[key];
+    if (value !== undefined) byColumn[column] = Number(value);
+  }
+
+  return forest.features.map((feature, i) => {
+    const raw = byColumn[feature] ?? forest.scaler.mean[i];
+    const scale = forest.scaler.scale[i] || 1;
+    // sklearn compares in float32, so round the same way to land on the same side of each threshold
+    return Math.fround((raw - forest.scaler.mean[i]) / scale);
+  });
+}
+
+function evaluateTree(tree: ForestTree, x: number[]): number[] {
+  let node = 0;
+  while (tree.left[node] !== -1) {
+    node = x[tree.feature[node]] <= tree.threshold[node] ? tree.left[node] : tree.right[node];
+  }
+  return tree.value[node] ?? [];
+}
+
+/**
+ * Averages the leaf class probabilities of every tree, as
+ * RandomForestClassifier.predict_proba does.
+ */
+export function predictProbabilities(forest: ForestExport, input: PredictionInput): Record<string, number> {
+  const x = standardizeInput(forest, input);
+  const totals = forest.classes.map(() => 0);
+
+  for (const tree of forest.trees) {
+    evaluateTree(tree, x).forEach((p, i) => {
+      totals[i] += p;
+    });
+  }
+
+  const probabilities: Record<string, number> = {};
+  forest.classes.forEach((name, i) => {
+    probabilities[name] = totals[i] / forest.trees.length;
+  });
+  return probabilities;
+}
+
+/**
+ * Splits the forest's class probabilities into a bias (the training class
+ * fractions at the root) plus one term per feature: walking each tree's
+ * decision path, the change in class fractions at every split is credited to
+ * the split's feature. Bias plus contributions equals predictProbabilities.
+ * Returns null for exports without internal node values.
+ */
+export function pathContributions(
+  forest: ForestExport,
+  input: PredictionInput
+): { bias: number[]; contributions: number[][] } | null {
+  const x = standardizeInput(forest, input);
+  const bias = forest.classes.map(() => 0);
+  const contributions = forest.features.map(() => forest.classes.map(() => 0));
+
+  for (const tree of forest.trees) {
+    const root = tree.value[0];
+    if (!root) return null;
+    let node = 0;
+    let value = root;
+    value.forEach((p, i) => {
+      bias[i] += p / forest.trees.length;
+    });
+
+    while (tree.left[node] !== -1) {
+      const feature = tree.feature[node];
+      node = x[feature] <= tree.threshold[node] ? tree.left[node] : tree.right[node];
+      const next = tree.value[node];
+      if (!next) return null;
+      next.forEach((p, i) => {
+        contributions[feature][i] += (p - value[i]) / forest.trees.length;
+      });
+      value = next;
+    }
+  }
+
+  return { bias, contributions };
+}
+
+export function classifyWithForest(
+  forest: ForestExport,
+  input: PredictionInput
+): { status: PredictionResult['status']; confidence: number; probabilities: Record<string, number> } {
+  const probabilities = predictProbabilities(forest, input);
+  const [predictedClass, confidence] = Object.entries(probabilities).reduce((best, entry) =>
+    entry[1] > best[1] ? entry : best
+  );
+
+  return {
+    status: statusMapping[predictedClass.toLowerCase()] ?? 'unknown',
+    confidence,
+    probabilities
+  };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { PredictionInput } from '../types';
+import { simulateLightCurve } from './lightCurve';
+
+const input: PredictionInput = {
+  signalToNoise: 50,
+  transitDepth: 2500,
+  orbitalPeriod: 3.5,
+  transitDuration: 2.4,
+  planetRadius: 5,
+  planetTemperature: 1100
+};
+
+describe('simulateLightCurve', () => {
+  const curve = simulateLightCurve(input);
+
+  it('folds every transit onto hours from mid-transit', () => {
+    const halfWindow = 1.5 * input.transitDuration;
+    expect(curve.folded.length).toBeGreaterThan(0);
+    for (const point of curve.folded) expect(Math.abs(point.time)).toBeLessThanOrEqual(halfWindow + 1e-9);
+    expect(curve.folded.map((p) => p.time)).toEqual([...curve.folded.map((p) => p.time)].sort((a, b) => a - b));
+  });
+
+  it('lines the transits up on one shape', () => {
+    // The same offset from mid-transit has the same model flux in every transit
+    const byOffset = new Map<string, number>();
+    for (const point of curve.folded) {
+      const key = point.time.toFixed(6);
+      const seen = byOffset.get(key);
+      if (seen !== undefined) expect(point.model).toBeCloseTo(seen, 6);
+      byOffset.set(key, point.model);
+    }
+    expect(byOffset.size).toBeLessThan(curve.folded.length);
+  });
+
+  it('reaches the entered depth at mid-transit and is flat outside the transit', () => {
+    const deepest = Math.min(...curve.folded.map((p) => p.model));
+    expect(deepest).toBeCloseTo(-input.transitDepth, 0);
+    const center = curve.folded.reduce((best, p) => (Math.abs(p.time) < Math.abs(best.time) ? p : best));
+    expect(center.model).toBeCloseTo(deepest, 0);
+    for (const point of curve.folded) {
+      if (Math.abs(point.time) > input.transitDuration / 2 + 1e-9) expect(point.model).toBeCloseTo(0);
+    }
+  });
+
+  it('spaces the transits by the orbital period', () => {
+    const midTransits = curve.series
+      .filter((p, i, all) => p.model < 0 && (i === 0 || all[i - 1].model >= 0))
+      .map((p) => p.time);
+    expect(midTransits).toHaveLength(3);
+    expect(midTransits[1] - midTransits[0]).toBeCloseTo(input.orbitalPeriod, 2);
+    expect(midTransits[2] - midTransits[1]).toBeCloseTo(input.orbitalPeriod, 2);
+  });
+
+  it('draws the same noise for the same input', () => {
+    expect(simulateLightCurve(input)).toEqual(curve);
+    expect(curve.noisePpm).toBeGreaterThan(0);
+  });
+});
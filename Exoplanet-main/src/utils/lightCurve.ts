@@ -0,0 +1,106 @@
+import { PredictionInput } from '../types';
+import { gaussian, hashSeed, seededRandom } from './random';
+
+// Quadratic limb-darkening coefficients of a Sun-like star in the Kepler/TESS bands
+const LIMB_DARKENING = { u1: 0.4, u2: 0.25 };
+const TRANSITS_SHOWN = 3;
+const BASELINE_SAMPLES = 600;
+const SAMPLES_PER_TRANSIT = 80;
+// The zoomed view spans this many transit durations around mid-transit
+const ZOOM_DURATIONS = 3;
+
+export interface LightCurvePoint {
+  // Days since the start of the series, or hours from mid-transit in the folded view
+  time: number;
+  // Relative flux in ppm (0 out of transit, negative during it), with and without noise
+  flux: number;
+  model: number;
+}
+
+export interface LightCurve {
+  series: LightCurvePoint[];
+  // The series folded on the period around mid-transit
+  folded: LightCurvePoint[];
+  // Per-point scatter that gives the entered signal-to-noise over the folded transits
+  noisePpm: number;
+  impactParameter: number;
+}
+
+// Fraction of the planet's disk (radius k, center r from the star's center, in stellar radii) in front of the star
+function overlapFraction(r: number, k: number): number {
+  if (r >= 1 + k) return 0;
+  if (r <= 1 - k) return 1;
+  const k2 = k * k;
+  const area =
+    k2 * Math.acos((r * r + k2 - 1) / (2 * r * k)) +
+    Math.acos((r * r + 1 - k2) / (2 * r)) -
+    0.5 * Math.sqrt((-r + k + 1) * (r + k - 1) * (r - k + 1) * (r + k + 1));
+  return area / (Math.PI * k2);
+}
+
+function intensity(r: number): number {
+  const mu = Math.sqrt(1 - Math.min(r, 1) ** 2);
+  const { u1, u2 } = LIMB_DARKENING;
+  return 1 - u1 * (1 - mu) - u2 * (1 - mu) ** 2;
+}
+
+/**
+ * Light blocked at `hours` from mid-transit, relative to mid-transit, for a
+ * small planet crossing a limb-darkened star on a straight chord at impact
+ * parameter b. The chord is timed so first to last contact takes `duration`.
+ */
+function transitShape(hours: number, duration: number, k: number, b: number): number {
+  const chord = Math.sqrt((1 + k) ** 2 - b * b);
+  const blocked = (t: number) => {
+    const x = (2 * t * chord) / duration;
+    const r = Math.sqrt(x * x + b * b);
+    return overlapFraction(r, k) * intensity(r);
+  };
+  const center = blocked(0);
+  return center > 0 ? blocked(hours) / center : 0;
+}
+
+/**
+ * Simulates the light curve the inputs describe: three transits of the
+ * entered depth and duration, spaced by the orbital period, plus white noise
+ * set so the folded transits have the entered signal-to-noise ratio. The
+ * noise is seeded from the inputs, so the same inputs draw the same curve.
+ */
+export function simulateLightCurve(input: PredictionInput): LightCurve {
+  const { transitDepth: depth, transitDuration: duration, orbitalPeriod: period, signalToNoise } = input;
+  // Radius ratio from the depth; kept below 1 so the planet can't cover the star
+  const k = Math.min(Math.sqrt(Math.max(depth, 0) / 1e6), 0.99);
+  const impactParameter = Math.min(Math.max(input.impactParameter ?? 0, 0), 1 + k - 1e-3);
+  const durationDays = duration / 24;
+
+  const times: number[] = [];
+  for (let i = 0; i <= BASELINE_SAMPLES; i++) times.push((i / BASELINE_SAMPLES) * period * TRANSITS_SHOWN);
+  for (let n = 0; n < TRANSITS_SHOWN; n++) {
+    const mid = (n + 0.5) * period;
+    for (let i = 0; i <= SAMPLES_PER_TRANSIT; i++) {
+      times.push(mid + (i / SAMPLES_PER_TRANSIT - 0.5) * ZOOM_DURATIONS * durationDays);
+    }
+  }
+  times.sort((a, b) => a - b);
+
+  // Hours from the nearest mid-transit
+  const offsets = times.map((t) => ((((t - period / 2) % period) + 1.5 * period) % period - period / 2) * 24);
+  const models = offsets.map((h) => -depth * transitShape(h, duration, k, impactParameter));
+
+  // SNR = depth / σ × √(points in transit)
+  const inTransit = models.filter((m) => m < 0).length;
+  const noisePpm = signalToNoise > 0 && inTransit > 0 ? (depth * Math.sqrt(inTransit)) / signalToNoise : 0;
+
+  const random = seededRandom(hashSeed(JSON.stringify([depth, duration, period, signalToNoise, impactParameter])));
+  const series = times.map((time, i) => ({
+    time,
+    model: models[i],
+    flux: models[i] + noisePpm * gaussian(random)
+  }));
+  const folded = series
+    .map((p, i) => ({ ...p, time: offsets[i] }))
+    .filter((p) => Math.abs(p.time) <= (ZOOM_DURATIONS / 2) * duration)
+    .sort((a, b) => a.time - b.time);
+
+  return { series, folded, noisePpm, impactParameter };
+}
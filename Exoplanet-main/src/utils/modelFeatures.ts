@@ -0,0 +1,81 @@
+import { AdvancedField, ApiModelInfo, ModelType } from '../types';
+import { apiService } from '../services/api';
+import { apiFieldNames } from '../services/contract';
+import { advancedFeatureColumns, backendModelNames } from './prediction';
+import { loadForest } from './forest';
+
+// Display order of the Advanced section
+const advancedFieldOrder: AdvancedField[] = [
+  'starTemperature',
+  'starRadius',
+  'starMass',
+  'metallicity',
+  'surfaceGravity',
+  'age',
+  'distance',
+  'impactParameter',
+  'eccentricity',
+  'inclination',
+  'nasaConfidence',
+  'flagNotTransit',
+  'flagStellarEclipse',
+  'flagCentroidOffset',
+  'flagEphemerisMatch'
+];
+
+// Any spelling of a field a feature list may use: koi_* column, request field or PredictionInput key
+const fieldAliases = new Map<string, AdvancedField>();
+for (const field of advancedFieldOrder) {
+  fieldAliases.set(field.toLowerCase(), field);
+  fieldAliases.set(apiFieldNames[field], field);
+  const column = advancedFeatureColumns[field];
+  if (column) fieldAliases.set(column, field);
+}
+
+/**
+ * Works out which optional inputs a model takes from the columns it is trained
+ * on. Entries that don't name an optional input (e.g. the six core koi_*
+ * columns) are ignored.
+ */
+export function resolveAdvancedFields(features: string[]): AdvancedField[] {
+  const fields = new Set<AdvancedField>();
+  for (const feature of features) {
+    const key = feature.trim().toLowerCase();
+    const alias = fieldAliases.get(key);
+    if (alias) fields.add(alias);
+  }
+  return advancedFieldOrder.filter((f) => fields.has(f));
+}
+
+let modelsRequest: { baseUrl: string; pending: Promise<Record<string, ApiModelInfo>> } | null = null;
+
+// /models/ rarely changes, so it's fetched once per backend rather than on every mission switch
+function getModelsCached(): Promise<Record<string, ApiModelInfo>> {
+  const baseUrl = apiService.getBaseUrl();
+  if (modelsRequest?.baseUrl !== baseUrl) {
+    const pending = apiService.getModels().catch((error) => {
+      if (modelsRequest?.pending === pending) modelsRequest = null;
+      throw error;
+    });
+    modelsRequest = { baseUrl, pending };
+  }
+  return modelsRequest.pending;
+}
+
+/**
+ * Optional inputs supported by a mission's model, from the training columns
+ * the backend reports or, when it is unreachable or predates `feature_names`,
+ * the in-browser forest export. Resolves to null when neither is available.
+ */
+export async function loadAdvancedFields(model: ModelType): Promise<AdvancedField[] | null> {
+  try {
+    const models = await getModelsCached();
+    const columns = models[backendModelNames[model]]?.feature_names;
+    if (columns) return resolveAdvancedFields(columns);
+  } catch (error) {
+    console.error('Failed to load model features:', error);
+  }
+
+  const forest = await loadForest(model);
+  return forest ? resolveAdvancedFields(forest.features) : null;
+}
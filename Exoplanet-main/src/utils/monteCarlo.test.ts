@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { PredictionInput } from '../types';
+import { MonteCarloDraw, sampleInputs, summarizeMonteCarlo } from './monteCarlo';
+
+const input: PredictionInput = {
+  signalToNoise: 20,
+  transitDepth: 800,
+  orbitalPeriod: 0.5,
+  transitDuration: 2,
+  planetRadius: 2,
+  planetTemperature: 900
+};
+
+function draw(overrides: Partial<MonteCarloDraw> = {}): MonteCarloDraw {
+  return { status: 'candidate', confidence: 0.8, candidateProbability: 0.8, sigmaDistance: 0.5, ...overrides };
+}
+
+describe('summarizeMonteCarlo', () => {
+  it('reports quantiles of the sampled confidence', () => {
+    const draws = Array.from({ length: 101 }, (_, i) => draw({ confidence: i / 100, candidateProbability: i / 100 }));
+    const { confidence, candidateProbability } = summarizeMonteCarlo(draws, 'candidate');
+    expect(confidence.median).toBeCloseTo(0.5);
+    expect(confidence.low68).toBeCloseTo(0.16);
+    expect(confidence.high68).toBeCloseTo(0.84);
+    expect(confidence.low95).toBeCloseTo(0.025);
+    expect(confidence.high95).toBeCloseTo(0.975);
+    expect(candidateProbability).toEqual(confidence);
+  });
+
+  it('interpolates between draws', () => {
+    const draws = [0.1, 0.2, 0.4, 0.8].map((confidence) => draw({ confidence }));
+    // Median of four sits halfway between the middle two
+    expect(summarizeMonteCarlo(draws, 'candidate').confidence.median).toBeCloseTo(0.3);
+  });
+
+  it('omits the probability interval unless every draw has one', () => {
+    const draws = [draw(), draw({ candidateProbability: undefined })];
+    expect(summarizeMonteCarlo(draws, 'candidate').candidateProbability).toBeUndefined();
+  });
+
+  it('counts the share of each verdict', () => {
+    const draws = [draw(), draw(), draw({ status: 'false_positive', sigmaDistance: 2 }), draw({ status: 'unknown', sigmaDistance: 2 })];
+    const summary = summarizeMonteCarlo(draws, 'candidate');
+    expect(summary.statusFractions).toEqual({ candidate: 0.5, false_positive: 0.25, unknown: 0.25 });
+    expect(summary.agreement).toBe(0.5);
+  });
+
+  it('is robust when at least 95% agree and no flip is within 1σ', () => {
+    const draws = [...Array.from({ length: 19 }, () => draw()), draw({ status: 'false_positive', sigmaDistance: 2.5 })];
+    expect(summarizeMonteCarlo(draws, 'candidate').robustness).toBe('robust');
+  });
+
+  it('is marginal when flips are only further out but frequent', () => {
+    const draws = [...Array.from({ length: 8 }, () => draw()), ...Array.from({ length: 2 }, () => draw({ status: 'false_positive', sigmaDistance: 1.5 }))];
+    expect(summarizeMonteCarlo(draws, 'candidate').robustness).toBe('marginal');
+  });
+
+  it('is fragile when a draw within 1σ flips', () => {
+    const draws = [...Array.from({ length: 99 }, () => draw()), draw({ status: 'false_positive', sigmaDistance: 0.9 })];
+    expect(summarizeMonteCarlo(draws, 'candidate').robustness).toBe('fragile');
+  });
+});
+
+describe('sampleInputs', () => {
+  it('draws the same samples for the same input', () => {
+    const uncertainties = { transitDepth: 100, planetTemperature: 50 };
+    expect(sampleInputs(input, uncertainties, 20)).toEqual(sampleInputs(input, uncertainties, 20));
+  });
+
+  it('measures each draw by its largest perturbation in σ', () => {
+    const uncertainties = { transitDepth: 100, planetTemperature: 50 };
+    for (const sample of sampleInputs(input, uncertainties, 50)) {
+      const z = [
+        Math.abs(sample.input.transitDepth - input.transitDepth) / 100,
+        Math.abs(sample.input.planetTemperature - input.planetTemperature) / 50
+      ];
+      expect(sample.sigmaDistance).toBeCloseTo(Math.max(...z), 6);
+    }
+  });
+
+  it('keeps values at or above the field minimum and leaves other fields alone', () => {
+    for (const sample of sampleInputs(input, { orbitalPeriod: 2 }, 200)) {
+      expect(sample.input.orbitalPeriod).toBeGreaterThanOrEqual(0);
+      expect(sample.input.transitDepth).toBe(input.transitDepth);
+    }
+  });
+});
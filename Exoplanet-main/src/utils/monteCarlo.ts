@@ -0,0 +1,155 @@
+import { InferenceSource, InputUncertainties, ModelType, NumericInputField, PredictionInput, PredictionResult } from '../types';
+import { inputFieldInfo } from '../data/inputFields';
+import { generatePrediction } from './prediction';
+import { mapWithConcurrency } from './batch';
+import { gaussian, hashSeed, seededRandom } from './random';
+
+// Same ceiling Explorer uses for its batch runs
+const MONTE_CARLO_CONCURRENCY = 4;
+// Redraws of a sample that lands below a field's minimum before clamping it
+const MAX_REDRAWS = 10;
+// Share of draws that must agree with the nominal verdict for it to count as robust
+const ROBUST_AGREEMENT = 0.95;
+
+export type Robustness = 'robust' | 'marginal' | 'fragile';
+
+export interface MonteCarloDraw {
+  status: PredictionResult['status'];
+  confidence: number;
+  // Summed candidate + confirmed probability; only known when the model reports probabilities
+  candidateProbability?: number;
+  // Largest perturbation of any input in units of σ (max |z|); ≤ 1 means every input lies within its 1σ
+  sigmaDistance: number;
+  // Where this draw was computed; always the baseline's source (see runMonteCarlo)
+  source?: InferenceSource;
+}
+
+// Median and central 68% / 95% ranges of a sampled quantity
+export interface Interval {
+  median: number;
+  low68: number;
+  high68: number;
+  low95: number;
+  high95: number;
+}
+
+export interface MonteCarloSummary {
+  draws: number;
+  statusFractions: Record<PredictionResult['status'], number>;
+  confidence: Interval;
+  candidateProbability?: Interval;
+  // Share of draws with the nominal verdict
+  agreement: number;
+  // 'fragile': the verdict flips for some draw with every input within 1σ; 'marginal': only further out,
+  // but often enough that fewer than 95% of draws agree; 'robust' otherwise
+  robustness: Robustness;
+}
+
+/**
+ * Draws `count` inputs with each field in `uncertainties` perturbed by
+ * Gaussian noise of that σ. Seeded from the input and uncertainties, so the
+ * same run draws the same samples. Values below a field's minimum (e.g.
+ * negative periods) are redrawn.
+ */
+export function sampleInputs(
+  input: PredictionInput,
+  uncertainties: InputUncertainties,
+  count: number
+): Array<{ input: PredictionInput; sigmaDistance: number }> {
+  const fields = (Object.entries(uncertainties) as Array<[NumericInputField, number]>).filter(
+    ([field, sigma]) => sigma > 0 && typeof input[field] === 'number'
+  );
+  const random = seededRandom(hashSeed(JSON.stringify([input, uncertainties, count])));
+
+  return Array.from({ length: count }, () => {
+    const sample: PredictionInput = { ...input };
+    let largest = 0;
+    for (const [field, sigma] of fields) {
+      const min = inputFieldInfo[field].min ?? -Infinity;
+      let z = gaussian(random);
+      for (let i = 0; i < MAX_REDRAWS && (input[field] as number) + z * sigma < min; i++) z = gaussian(random);
+      sample[field] = Math.max((input[field] as number) + z * sigma, min);
+      largest = Math.max(largest, Math.abs(z));
+    }
+    return {
+      input: sample,
+      sigmaDistance: largest
+    };
+  });
+}
+
+/**
+ * Runs the model on each sampled input, a few at a time. Results aren't
+ * recorded in the backend history. `onProgress` is called after each draw.
+ * Throws if a draw is answered by anything other than `source` (the
+ * baseline's), since a fallback would compare a different model against it.
+ */
+export async function runMonteCarlo(
+  input: PredictionInput,
+  uncertainties: InputUncertainties,
+  model: ModelType,
+  source: InferenceSource | undefined,
+  count: number,
+  signal?: AbortSignal,
+  onProgress?: (done: number) => void
+): Promise<MonteCarloDraw[]> {
+  let done = 0;
+  return mapWithConcurrency(
+    sampleInputs(input, uncertainties, count),
+    MONTE_CARLO_CONCURRENCY,
+    async (sample) => {
+      const result = await generatePrediction(sample.input, model, signal, { record: false });
+      if (result.source !== source) {
+        throw new Error('The backend stopped answering while the Monte Carlo check was running. Try again once it is back.');
+      }
+      onProgress?.(++done);
+      const p = result.probabilities;
+      return {
+        status: result.status,
+        confidence: result.confidence,
+        candidateProbability: p ? (p.candidate ?? 0) + (p.confirmed ?? 0) : undefined,
+        sigmaDistance: sample.sigmaDistance,
+        source: result.source
+      };
+    },
+    signal
+  );
+}
+
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function interval(values: number[]): Interval {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    median: quantile(sorted, 0.5),
+    low68: quantile(sorted, 0.16),
+    high68: quantile(sorted, 0.84),
+    low95: quantile(sorted, 0.025),
+    high95: quantile(sorted, 0.975)
+  };
+}
+
+export function summarizeMonteCarlo(draws: MonteCarloDraw[], nominal: PredictionResult['status']): MonteCarloSummary {
+  const statusFractions: MonteCarloSummary['statusFractions'] = { candidate: 0, false_positive: 0, unknown: 0 };
+  for (const draw of draws) statusFractions[draw.status] += 1 / draws.length;
+
+  const probabilities = draws
+    .map((d) => d.candidateProbability)
+    .filter((p): p is number => p !== undefined);
+  const agreement = statusFractions[nominal];
+  const flipsWithin1Sigma = draws.some((d) => d.sigmaDistance <= 1 && d.status !== nominal);
+
+  return {
+    draws: draws.length,
+    statusFractions,
+    confidence: interval(draws.map((d) => d.confidence)),
+    candidateProbability: probabilities.length === draws.length ? interval(probabilities) : undefined,
+    agreement,
+    robustness: flipsWithin1Sigma ? 'fragile' : agreement < ROBUST_AGREEMENT ? 'marginal' : 'robust'
+  };
+}
@@ -1,34 +1,181 @@
-import { PredictionInput, PredictionResult, ModelType } from '../types';
+import { AdvancedField, CoreFeature, PredictionInput, PredictionResult, ModelType } from '../types';
 import { apiService } from '../services/api';
+import { CancelledError, isRecoverable } from '../services/errors';
+import { getSettings } from './settings';
+import { loadForest, classifyWithForest } from './forest';
+import { flagFieldInfo } from '../data/inputFields';
+
+// Frontend model names mapped to the names the Django backend expects
+export const backendModelNames: Record<ModelType, string> = {
+  K2: 'k2',
+  TESS: 'toi',
+  Kepler: 'kepler'
+};
+
+// CSV columns (koi_* naming shared by all three training sets) for each input field
+export const featureColumns: Record<CoreFeature, string> = {
+  signalToNoise: 'koi_model_snr',
+  transitDepth: 'koi_depth',
+  orbitalPeriod: 'koi_period',
+  transitDuration: 'koi_duration',
+  planetRadius: 'koi_prad',
+  planetTemperature: 'koi_teq'
+};
+
+// Same naming for the optional inputs a retrained model may use (distance has no koi_* column)
+export const advancedFeatureColumns: Partial<Record<AdvancedField, string>> = {
+  nasaConfidence: 'koi_score',
+  starTemperature: 'koi_steff',
+  starRadius: 'koi_srad',
+  starMass: 'koi_smass',
+  metallicity: 'koi_smet',
+  surfaceGravity: 'koi_slogg',
+  age: 'koi_sage',
+  impactParameter: 'koi_impact',
+  eccentricity: 'koi_eccen',
+  inclination: 'koi_incl',
+  flagNotTransit: 'koi_fpflag_nt',
+  flagStellarEclipse: 'koi_fpflag_ss',
+  flagCentroidOffset: 'koi_fpflag_co',
+  flagEphemerisMatch: 'koi_fpflag_ec'
+};
+
+function numericCell(row: Record<string, string | number>, column: string): number | null {
+  const value = Number(row[column]);
+  return row[column] === '' || row[column] == null || !Number.isFinite(value) ? null : value;
+}
+
+/**
+ * Builds a PredictionInput from a parsed CSV row. Returns null when any of
+ * the core koi_* feature columns is missing or not numeric; optional columns
+ * (stellar parameters, flags, ...) are picked up when present.
+ */
+export function predictionInputFromRow(
+  row: Record<string, string | number>
+): PredictionInput | null {
+  const input = {} as PredictionInput;
+  for (const [key, column] of Object.entries(featureColumns) as Array<[CoreFeature, string]>) {
+    const value = numericCell(row, column);
+    if (value === null) return null;
+    input[key] = value;
+  }
+  for (const [key, column] of Object.entries(advancedFeatureColumns) as Array<[AdvancedField, string]>) {
+    const value = numericCell(row, column);
+    if (value === null) continue;
+    Object.assign(input, { [key]: key in flagFieldInfo ? value !== 0 : value });
+  }
+  return input;
+}
 
+export const explanations: Record<PredictionResult['status'], string> = {
+  candidate: 'Strong signals indicate this is likely a planetary candidate. High confidence score, favorable orbital parameters, and minimal false positive flags suggest a genuine exoplanet transit.',
+  unknown: 'Moderate confidence. The signal shows characteristics of a potential planet, but requires additional observation and analysis to confirm. Some parameters fall outside optimal ranges.',
+  false_positive: 'Low confidence signals suggest this is likely a false positive. Detected anomalies may be caused by stellar activity, instrumental artifacts, or other non-planetary phenomena.'
+};
+
+/**
+ * Classifies the input with the Django backend. When the backend can't be
+ * reached or fails, falls back to the exported forest for the mission (if one
+ * ships with the build) and then, if allowed in Settings, to the hand-weighted
+ * heuristic. Rejected input and malformed responses are rethrown as-is, and
+ * aborting `signal` rejects with CancelledError instead of falling back.
+ * Pass `record: false` for exploratory runs that shouldn't show up in the
+ * backend's history.
+ */
 export async function generatePrediction(
   input: PredictionInput,
-  model: ModelType
+  model: ModelType,
+  signal?: AbortSignal,
+  { record = true }: { record?: boolean } = {}
 ): Promise<PredictionResult> {
-  try {
-    // Convert frontend model names to backend model names
-    const modelMapping: Record<ModelType, string> = {
-      'K2': 'k2',
-      'TESS': 'toi',
-      'Kepler': 'kepler'
-    };
+  const settings = getSettings();
+
+  if (!settings.preferOfflineModel) {
+    try {
+      const backendModel = backendModelNames[model];
+
+      // Make API call to Django backend
+      const result = await apiService.predict(input, backendModel, { signal, record });
+
+      return {
+        status: result.status,
+        confidence: result.confidence,
+        explanation: result.explanation,
+        source: result.mock_prediction ? 'server_heuristic' : 'model',
+        probabilities: result.probabilities,
+        featureImportance: result.feature_importance,
+        predictionId: result.prediction_id
+      };
+    } catch (error) {
+      console.error('Prediction API call failed:', error);
+      if (!isRecoverable(error)) throw error;
+    }
+  }
 
-    const backendModel = modelMapping[model];
-    
-    // Make API call to Django backend
-    const result = await apiService.predict(input, backendModel);
-    
+  const forest = await loadForest(model);
+  if (signal?.aborted) throw new CancelledError('prediction');
+  if (forest) {
+    const { status, confidence, probabilities } = classifyWithForest(forest, input);
     return {
-      status: result.status,
-      confidence: result.confidence,
-      explanation: result.explanation
+      status,
+      confidence: Math.round(confidence * 1000) / 1000,
+      explanation: explanations[status],
+      source: 'offline_model',
+      probabilities,
+      featureImportance: forest.features
+        .map((feature, i) => ({ feature, importance: forest.feature_importance[i] }))
+        .sort((a, b) => b.importance - a.importance)
     };
-  } catch (error) {
-    console.error('Prediction API call failed:', error);
-    
-    // Fallback to mock prediction if API fails
-    return generateMockPrediction(input, model);
   }
+
+  // Surface the failure instead of a heuristic score when the user has turned the fallback off
+  if (!settings.allowOfflineFallback) {
+    throw new Error(
+      settings.preferOfflineModel
+        ? `No in-browser ${model} model is bundled with this build and the heuristic fallback is disabled in Settings.`
+        : `The backend could not be reached, no in-browser ${model} model is bundled, and the heuristic fallback is disabled in Settings.`
+    );
+  }
+
+  return generateMockPrediction(input, model);
+}
+
+// Share of the heuristic score each core input can earn
+const heuristicWeights: Record<CoreFeature, number> = {
+  signalToNoise: 0.20,
+  transitDepth: 0.15,
+  orbitalPeriod: 0.10,
+  transitDuration: 0.10,
+  planetRadius: 0.10,
+  planetTemperature: 0.05
+};
+
+export const heuristicModelBonus: Record<ModelType, number> = {
+  K2: 0.02,
+  TESS: 0.05,
+  Kepler: 0.0
+};
+
+/**
+ * The heuristic's per-input terms: how well each core input scores (0–1)
+ * and its weight. The score before noise is the sum of score × weight plus
+ * the mission's bonus.
+ */
+export function heuristicTerms(input: PredictionInput): Array<{ field: CoreFeature; score: number; weight: number }> {
+  const scores: Record<CoreFeature, number> = {
+    signalToNoise: Math.min(input.signalToNoise / 100, 1),
+    transitDepth: Math.min(input.transitDepth / 5000, 1),
+    orbitalPeriod: input.orbitalPeriod > 1 && input.orbitalPeriod < 500 ? 1 : 0.5,
+    transitDuration: input.transitDuration > 0.5 && input.transitDuration < 10 ? 1 : 0.6,
+    planetRadius: input.planetRadius > 0.5 && input.planetRadius < 20 ? 1 : 0.7,
+    planetTemperature: input.planetTemperature > 200 && input.planetTemperature < 2000 ? 1 : 0.6
+  };
+
+  return (Object.keys(heuristicWeights) as CoreFeature[]).map((field) => ({
+    field,
+    score: scores[field],
+    weight: heuristicWeights[field]
+  }));
 }
 
 function generateMockPrediction(
@@ -36,41 +183,13 @@ function generateMockPrediction(
   model: ModelType
 ): PredictionResult {
   let score = 0;
-  const weights = {
-    signalToNoise: 0.20,
-    transitDepth: 0.15,
-    orbitalPeriod: 0.10,
-    transitDuration: 0.10,
-    planetRadius: 0.10,
-    planetTemperature: 0.05
-  };
-
-  const normalizedSNR = Math.min(input.signalToNoise / 100, 1);
-  score += normalizedSNR * weights.signalToNoise;
-
-  const normalizedDepth = Math.min(input.transitDepth / 5000, 1);
-  score += normalizedDepth * weights.transitDepth;
-
-  const periodScore = input.orbitalPeriod > 1 && input.orbitalPeriod < 500 ? 1 : 0.5;
-  score += periodScore * weights.orbitalPeriod;
-
-  const durationScore = input.transitDuration > 0.5 && input.transitDuration < 10 ? 1 : 0.6;
-  score += durationScore * weights.transitDuration;
-
-  const radiusScore = input.planetRadius > 0.5 && input.planetRadius < 20 ? 1 : 0.7;
-  score += radiusScore * weights.planetRadius;
-
-  const tempScore = input.planetTemperature > 200 && input.planetTemperature < 2000 ? 1 : 0.6;
-  score += tempScore * weights.planetTemperature;
+  for (const term of heuristicTerms(input)) {
+    score += term.score * term.weight;
+  }
 
   // Detection flags removed per requirements
 
-  const modelBonus = {
-    K2: 0.02,
-    TESS: 0.05,
-    Kepler: 0.0
-  };
-  score += modelBonus[model];
+  score += heuristicModelBonus[model];
 
   score = Math.max(0, Math.min(1, score));
 
@@ -78,22 +197,19 @@ function generateMockPrediction(
   score = Math.max(0, Math.min(1, score + noise));
 
   let status: 'candidate' | 'false_positive' | 'unknown';
-  let explanation: string;
 
   if (score >= 0.7) {
     status = 'candidate';
-    explanation = 'Strong signals indicate this is likely a planetary candidate. High confidence score, favorable orbital parameters, and minimal false positive flags suggest a genuine exoplanet transit.';
   } else if (score >= 0.4) {
     status = 'unknown';
-    explanation = 'Moderate confidence. The signal shows characteristics of a potential planet, but requires additional observation and analysis to confirm. Some parameters fall outside optimal ranges.';
   } else {
     status = 'false_positive';
-    explanation = 'Low confidence signals suggest this is likely a false positive. Detected anomalies may be caused by stellar activity, instrumental artifacts, or other non-planetary phenomena.';
   }
 
   return {
     status,
     confidence: Math.round(score * 100) / 100,
-    explanation
+    explanation: explanations[status],
+    source: 'offline_heuristic'
   };
 }
@@ -0,0 +1,87 @@
+import { ParameterPreset, PredictionInput } from '../types';
+import { toPredictionInput } from '../services/contract';
+
+const STORAGE_KEY = 'astrokit_presets';
+const EXPORT_VERSION = 1;
+
+export function getPresets(): ParameterPreset[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    return JSON.parse(stored);
+  } catch (error) {
+    console.error('Failed to load presets:', error);
+    return [];
+  }
+}
+
+function storePresets(presets: ParameterPreset[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch (error) {
+    console.error('Failed to save presets:', error);
+  }
+}
+
+export function savePreset(name: string, input: PredictionInput): ParameterPreset {
+  const preset: ParameterPreset = {
+    id: crypto.randomUUID(),
+    name,
+    input,
+    createdAt: new Date().toISOString()
+  };
+  storePresets([...getPresets(), preset]);
+  return preset;
+}
+
+export function renamePreset(id: string, name: string): void {
+  storePresets(getPresets().map((p) => (p.id === id ? { ...p, name } : p)));
+}
+
+export function deletePreset(id: string): void {
+  storePresets(getPresets().filter((p) => p.id !== id));
+}
+
+export function exportPresets(): string {
+  return JSON.stringify({ version: EXPORT_VERSION, presets: getPresets() }, null, 2);
+}
+
+// Keeps only the known PredictionInput fields, and requires the six core ones to be numbers
+function toInput(value: unknown): PredictionInput | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return null;
+  return toPredictionInput(value as Record<string, unknown>);
+}
+
+/**
+ * Adds the presets from an exportPresets() file. Imported presets get fresh
+ * ids so importing the same file twice doesn't clash. Returns how many were
+ * added; throws when the file isn't a preset export.
+ */
+export function importPresets(json: string): number {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const entries = (data as { presets?: unknown })?.presets;
+  if (!Array.isArray(entries)) throw new Error('The file does not contain a list of presets.');
+
+  const imported: ParameterPreset[] = [];
+  entries.forEach((entry, i) => {
+    const input = toInput(entry?.input);
+    if (typeof entry?.name !== 'string' || !input) {
+      throw new Error(`Preset ${i + 1} is missing a name or one of the six core parameters.`);
+    }
+    imported.push({
+      id: crypto.randomUUID(),
+      name: entry.name,
+      input,
+      createdAt: typeof entry.createdAt === 'string' ? entry.createdAt : new Date().toISOString()
+    });
+  });
+
+  storePresets([...getPresets(), ...imported]);
+  return imported.length;
+}
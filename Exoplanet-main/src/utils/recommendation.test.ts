@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { FeatureEnvelope, ModelType, PredictionInput } from '../types';
+import { MissionEnvelope } from './envelope';
+import { recommendMission } from './recommendation';
+
+const input: PredictionInput = {
+  signalToNoise: 30,
+  transitDepth: 1000,
+  orbitalPeriod: 10,
+  transitDuration: 3,
+  planetRadius: 2.5,
+  planetTemperature: 800
+};
+
+function range(p50: number): FeatureEnvelope {
+  return { min: p50 / 100, p1: p50 / 10, p50, p99: p50 * 10, max: p50 * 100 };
+}
+
+// An envelope centred on `centre`, so inputs equal to it fit perfectly
+function envelopeAround(centre: PredictionInput): MissionEnvelope {
+  return {
+    exact: true,
+    features: {
+      signalToNoise: range(centre.signalToNoise),
+      transitDepth: range(centre.transitDepth),
+      orbitalPeriod: range(centre.orbitalPeriod),
+      transitDuration: range(centre.transitDuration),
+      planetRadius: range(centre.planetRadius),
+      planetTemperature: range(centre.planetTemperature)
+    }
+  };
+}
+
+describe('recommendMission', () => {
+  const longPeriod = { ...input, orbitalPeriod: 400, planetTemperature: 250 };
+  const envelopes: Partial<Record<ModelType, MissionEnvelope>> = {
+    Kepler: envelopeAround(longPeriod),
+    TESS: envelopeAround(input)
+  };
+
+  it('is null until an envelope is known', () => {
+    expect(recommendMission(input, {}, 'Kepler')).toBeNull();
+  });
+
+  it('recommends the mission whose training data fits best', () => {
+    const recommendation = recommendMission(longPeriod, envelopes, 'TESS');
+    expect(recommendation?.recommended).toBe('Kepler');
+    expect(recommendation?.fits.map((f) => f.mission)).toEqual(['Kepler', 'TESS']);
+    expect(recommendation?.fits[0].score).toBeCloseTo(1);
+    expect(recommendation?.approximate).toBe(false);
+  });
+
+  it('explains which input the selected mission doesn’t cover', () => {
+    const farOut = { ...input, orbitalPeriod: 2000 };
+    const recommendation = recommendMission(farOut, { Kepler: envelopeAround(farOut), TESS: envelopeAround(input) }, 'TESS');
+    expect(recommendation?.recommended).toBe('Kepler');
+    expect(recommendation?.reason).toMatch(/^For TESS, Orbital Period/);
+  });
+
+  it('keeps the selected mission when another is only marginally better', () => {
+    const nearlySame = { Kepler: envelopeAround({ ...input, orbitalPeriod: 10.5 }), TESS: envelopeAround(input) };
+    expect(recommendMission({ ...input, orbitalPeriod: 10.3 }, nearlySame, 'TESS')?.recommended).toBe('TESS');
+  });
+
+  it('says when a mission was scored against the bundled, approximate ranges', () => {
+    const approximate = { ...envelopes, K2: { ...envelopeAround(input), exact: false } };
+    expect(recommendMission(input, approximate, 'TESS')?.approximate).toBe(true);
+  });
+});
@@ -0,0 +1,111 @@
+import { CoreFeature, EnvelopeFlag, FeatureEnvelope, ModelType, PredictionInput, UnitPreferences } from '../types';
+import { inputFieldInfo } from '../data/inputFields';
+import { MissionEnvelope, checkEnvelope, describeFlag } from './envelope';
+import { formatInUnits } from './units';
+
+// Score differences smaller than this don't justify switching away from the selected mission
+const SWITCH_MARGIN = 0.05;
+
+export interface MissionFit {
+  mission: ModelType;
+  // Mean per-feature fit, 0 (outside the training data) to 1 (at the training median)
+  score: number;
+  flags: EnvelopeFlag[];
+}
+
+export interface MissionRecommendation {
+  recommended: ModelType;
+  // Best fit first
+  fits: MissionFit[];
+  reason: string;
+  // True when any mission was scored against the bundled, hand-rounded ranges
+  approximate: boolean;
+}
+
+/**
+ * How typical a value is for one training feature: 1 at the median, 0.5 at
+ * the 1st/99th percentile and 0 beyond the training min/max. Distances are
+ * measured in log space, since every feature spans orders of magnitude.
+ */
+function featureFit(value: number, envelope: FeatureEnvelope): number {
+  if (value < envelope.min || value > envelope.max || value <= 0) return 0;
+  const log = Math.log10;
+  const z =
+    value >= envelope.p50
+      ? (log(value) - log(envelope.p50)) / (log(envelope.p99) - log(envelope.p50))
+      : (log(envelope.p50) - log(value)) / (log(envelope.p50) - log(envelope.p1));
+  return 1 / (1 + z * z);
+}
+
+function missionFit(mission: ModelType, input: PredictionInput, envelope: MissionEnvelope): MissionFit {
+  const fits = (Object.entries(envelope.features) as Array<[CoreFeature, FeatureEnvelope]>)
+    .filter(([field]) => Number.isFinite(input[field]))
+    .map(([field, range]) => featureFit(input[field], range));
+  return {
+    mission,
+    score: fits.length ? fits.reduce((a, b) => a + b, 0) / fits.length : 0,
+    flags: checkEnvelope(input, envelope)
+  };
+}
+
+function explain(
+  best: MissionFit,
+  current: MissionFit | undefined,
+  envelopes: Partial<Record<ModelType, MissionEnvelope>>,
+  units?: UnitPreferences
+): string {
+  if (!current || best.mission === current.mission) {
+    return best.flags.length === 0
+      ? `Every input sits inside the bulk of the ${best.mission} training data.`
+      : `${best.mission} is the closest match, though no mission's training data covers this input well.`;
+  }
+
+  // The input the selected mission handles worst that the recommended one handles
+  const uncovered = current.flags.filter((f) => !best.flags.some((b) => b.field === f.field));
+  if (uncovered.length) {
+    const [flag] = uncovered;
+    const median = envelopes[best.mission]?.features[flag.field]?.p50;
+    const typical = median !== undefined ? ` (its median is ${formatInUnits(flag.field, median, units)})` : '';
+    const more = uncovered.length > 1 ? `, and ${uncovered.length - 1} more input${uncovered.length > 2 ? 's' : ''} fall outside its training data` : '';
+    return `For ${current.mission}, ${describeFlag(flag, units)}${more}. ${best.mission} was trained on targets like this${typical}.`;
+  }
+  return `The inputs are closer to the typical ${best.mission} target than to the typical ${current.mission} one.`;
+}
+
+/**
+ * Scores how well an input matches each mission's training data and picks
+ * the best fit, keeping the selected mission unless another is clearly
+ * better. Returns null until at least one envelope is known.
+ */
+export function recommendMission(
+  input: PredictionInput,
+  envelopes: Partial<Record<ModelType, MissionEnvelope>>,
+  selected: ModelType,
+  units?: UnitPreferences
+): MissionRecommendation | null {
+  const known = Object.entries(envelopes) as Array<[ModelType, MissionEnvelope]>;
+  if (!known.length) return null;
+
+  const fits = known.map(([mission, envelope]) => missionFit(mission, input, envelope)).sort((a, b) => b.score - a.score);
+  const current = fits.find((f) => f.mission === selected);
+  const best = current && fits[0].score - current.score < SWITCH_MARGIN ? current : fits[0];
+
+  return {
+    recommended: best.mission,
+    fits,
+    reason: explain(best, current, envelopes, units),
+    approximate: known.some(([, envelope]) => !envelope.exact)
+  };
+}
+
+// Short label for a fit score
+export function describeFit(score: number): string {
+  if (score >= 0.75) return 'Good fit';
+  if (score >= 0.5) return 'Partial fit';
+  return 'Poor fit';
+}
+
+// "Orbital Period 3000 days, Planet Radius 40 R⊕": the inputs a mission's training data doesn't cover
+export function summarizeFlags(fit: MissionFit, units?: UnitPreferences): string {
+  return fit.flags.map((f) => `${inputFieldInfo[f.field].label} ${formatInUnits(f.field, f.value, units)}`).join(', ');
+}
@@ -0,0 +1,57 @@
+import { AppSettings, ConnectionProfile } from '../types';
+
+const STORAGE_KEY = 'astrokit_settings';
+
+export const DEFAULT_API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://127.0.0.1:8000/api';
+
+// Built-in profiles; their URLs come from build-time env, so they are rebuilt on every load and never stored
+const defaultProfiles: ConnectionProfile[] = [
+  { id: 'local', name: 'Local', baseUrl: DEFAULT_API_BASE_URL, builtIn: true },
+  { id: 'lab', name: 'Lab Server', baseUrl: import.meta.env.VITE_LAB_API_URL || '', builtIn: true },
+  { id: 'staging', name: 'Staging', baseUrl: import.meta.env.VITE_STAGING_API_URL || '', builtIn: true }
+];
+
+const defaultSettings: AppSettings = {
+  profiles: defaultProfiles,
+  activeProfileId: 'local',
+  allowOfflineFallback: true,
+  preferOfflineModel: false,
+  preferredUnits: {},
+  autoSelectModel: false
+};
+
+export function getSettings(): AppSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return defaultSettings;
+    const parsed = JSON.parse(stored) as Partial<AppSettings>;
+    // Older saves also hold the built-in profiles; drop those copies so env changes take effect
+    const userProfiles = (parsed.profiles ?? []).filter(
+      (p) => !p.builtIn && !defaultProfiles.some((d) => d.id === p.id)
+    );
+    return { ...defaultSettings, ...parsed, profiles: [...defaultProfiles, ...userProfiles] };
+  } catch (error) {
+    console.error('Failed to load settings:', error);
+    return defaultSettings;
+  }
+}
+
+export function saveSettings(settings: AppSettings): void {
+  try {
+    const stored = { ...settings, profiles: settings.profiles.filter((p) => !p.builtIn) };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (error) {
+    console.error('Failed to save settings:', error);
+  }
+}
+
+// A profile without a URL (an unset VITE_* variable, or one just added) would send
+// requests to the frontend's own host, so fall back to the first one that has a URL
+export function getActiveProfile(settings: AppSettings = getSettings()): ConnectionProfile {
+  const usable = settings.profiles.filter((p) => normalizeBaseUrl(p.baseUrl));
+  return usable.find((p) => p.id === settings.activeProfileId) ?? usable[0] ?? defaultProfiles[0];
+}
+
+export function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
@@ -25,6 +25,15 @@ export function getPredictions(): Prediction[] {
   }
 }
 
+export function updatePrediction(id: string, changes: Partial<Prediction>): void {
+  try {
+    const predictions = getPredictions().map((p) => (p.id === id ? { ...p, ...changes } : p));
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(predictions));
+  } catch (error) {
+    console.error('Failed to update prediction:', error);
+  }
+}
+
 export function clearPredictions(): void {
   try {
     localStorage.removeItem(STORAGE_KEY);
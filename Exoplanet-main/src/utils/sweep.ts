@@ -0,0 +1,76 @@
+import { InferenceSource, ModelType, NumericInputField, PredictionInput, PredictionResult } from '../types';
+import { generatePrediction } from './prediction';
+import { mapWithConcurrency } from './batch';
+
+// Same ceiling Explorer uses for its batch runs
+const SWEEP_CONCURRENCY = 4;
+
+export interface SweepPoint {
+  value: number;
+  status: PredictionResult['status'];
+  confidence: number;
+  // Summed candidate + confirmed probability; only known when the model reports probabilities
+  candidateProbability?: number;
+  // Where this run was computed; a point that fell back mid-sweep comes from a different model
+  source?: InferenceSource;
+}
+
+// A change of predicted class between two neighbouring sweep values, placed at their midpoint
+export interface SweepBoundary {
+  at: number;
+  from: PredictionResult['status'];
+  to: PredictionResult['status'];
+}
+
+export function sweepValues(min: number, max: number, steps: number): number[] {
+  if (steps < 2 || min === max) return [min];
+  const step = (max - min) / (steps - 1);
+  return Array.from({ length: steps }, (_, i) => min + step * i);
+}
+
+/**
+ * Re-runs the prediction with `field` set to each of `values`, holding every
+ * other input fixed. Results aren't recorded in the backend history.
+ */
+export async function runSweep(
+  input: PredictionInput,
+  model: ModelType,
+  field: NumericInputField,
+  values: number[],
+  signal?: AbortSignal
+): Promise<SweepPoint[]> {
+  return mapWithConcurrency(
+    values,
+    SWEEP_CONCURRENCY,
+    async (value) => {
+      const result = await generatePrediction({ ...input, [field]: value }, model, signal, { record: false });
+      const p = result.probabilities;
+      return {
+        value,
+        status: result.status,
+        confidence: result.confidence,
+        candidateProbability: p ? (p.candidate ?? 0) + (p.confirmed ?? 0) : undefined,
+        source: result.source
+      };
+    },
+    signal
+  );
+}
+
+/**
+ * Class changes between neighbouring points computed by `source`. Points from
+ * any other source are skipped, so a backend that drops out mid-sweep doesn't
+ * show up as the heuristic disagreeing with the model.
+ */
+export function findBoundaries(points: SweepPoint[], source: InferenceSource | undefined): SweepBoundary[] {
+  const comparable = points.filter((p) => p.source === source);
+  const boundaries: SweepBoundary[] = [];
+  for (let i = 1; i < comparable.length; i++) {
+    const prev = comparable[i - 1];
+    const point = comparable[i];
+    if (prev.status !== point.status) {
+      boundaries.push({ at: (prev.value + point.value) / 2, from: prev.status, to: point.status });
+    }
+  }
+  return boundaries;
+}
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ApiHistoryEntry, InferenceSource, Prediction } from '../types';
+import { apiService } from '../services/api';
+import { explanations } from './prediction';
+import { getPredictions, savePrediction } from './storage';
+import { SERVER_ID_PREFIX, mergeHistory, pushLocalOnly } from './sync';
+
+const input = {
+  signalToNoise: 20,
+  transitDepth: 800,
+  orbitalPeriod: 12,
+  transitDuration: 3,
+  planetRadius: 2,
+  planetTemperature: 700
+};
+
+function local(id: string, predictionId?: number, source: InferenceSource | null = 'model'): Prediction {
+  return {
+    id,
+    timestamp: '2025-10-01T12:00:00Z',
+    modelName: 'Kepler',
+    input,
+    result: { status: 'candidate', confidence: 0.9, explanation: 'stored locally', source: source ?? undefined, predictionId }
+  };
+}
+
+function remote(id: number, overrides: Partial<ApiHistoryEntry> = {}): ApiHistoryEntry {
+  return {
+    id,
+    timestamp: '2025-10-02T12:00:00Z',
+    model_name: 'toi',
+    input_data: {
+      signal_to_noise: 20,
+      transit_depth: 800,
+      orbital_period: 12,
+      transit_duration: 3,
+      planet_radius: 2,
+      planet_temperature: 700,
+      star_radius: null
+    },
+    predicted_status: 'CONFIRMED',
+    confidence: 0.75,
+    probabilities: { CONFIRMED: 0.75, 'FALSE POSITIVE': 0.25 },
+    source: 'model',
+    ...overrides
+  };
+}
+
+describe('mergeHistory', () => {
+  it('marks local entries by whether the backend has them', () => {
+    const merged = mergeHistory([local('a'), local('b', 7)], []);
+    expect(merged.map((p) => p.location)).toEqual(['local', 'both']);
+  });
+
+  it('adds backend entries that no local entry carries, and none twice', () => {
+    const merged = mergeHistory([local('a', 7)], [remote(7), remote(8)]);
+    expect(merged).toHaveLength(2);
+    expect(merged[0]).toMatchObject({ id: 'a', location: 'both', result: { explanation: 'stored locally' } });
+    expect(merged[1]).toMatchObject({ id: `${SERVER_ID_PREFIX}8`, location: 'server' });
+  });
+
+  it('maps backend entries onto local predictions', () => {
+    const [entry] = mergeHistory([], [remote(8)]);
+    expect(entry.modelName).toBe('TESS');
+    expect(entry.input).toEqual(input);
+    expect(entry.result).toMatchObject({ status: 'candidate', confidence: 0.75, source: 'model', predictionId: 8 });
+    expect(entry.result.explanation).toBe(explanations.candidate);
+  });
+
+  it('leaves out backend entries missing a core input', () => {
+    const broken = remote(9, { input_data: { signal_to_noise: 20, transit_depth: null } });
+    expect(mergeHistory([], [broken, remote(8)]).map((p) => p.id)).toEqual([`${SERVER_ID_PREFIX}8`]);
+  });
+});
+
+describe('pushLocalOnly', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('uploads model results and records the backend id on them', async () => {
+    const create = vi.spyOn(apiService, 'createHistoryEntry').mockResolvedValue(remote(42));
+    savePrediction(local('a'));
+
+    expect(await pushLocalOnly(mergeHistory(getPredictions(), []))).toBe(1);
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({ model_name: 'kepler', source: 'model' }), expect.anything());
+    expect(getPredictions()[0].result.predictionId).toBe(42);
+  });
+
+  it('keeps heuristic and sourceless results local', async () => {
+    const create = vi.spyOn(apiService, 'createHistoryEntry').mockResolvedValue(remote(42));
+    savePrediction(local('a', undefined, 'offline_heuristic'));
+    savePrediction(local('b', undefined, 'server_heuristic'));
+    savePrediction(local('c', undefined, null));
+
+    expect(await pushLocalOnly(mergeHistory(getPredictions(), []))).toBe(0);
+    expect(create).not.toHaveBeenCalled();
+  });
+});
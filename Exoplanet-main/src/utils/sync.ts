@@ -0,0 +1,124 @@
+import { ApiHistoryEntry, ModelType, Prediction, PredictionInput, PredictionResult, SyncedPrediction } from '../types';
+import { apiService } from '../services/api';
+import { apiFieldNames, toApiInput, toPredictionInput } from '../services/contract';
+import { backendModelNames, explanations } from './prediction';
+import { getPredictions, updatePrediction } from './storage';
+
+// Local ids of predictions rebuilt from a backend history entry: `server-<entry id>`
+export const SERVER_ID_PREFIX = 'server-';
+
+const modelTypesByBackendName: Record<string, ModelType> = {
+  k2: 'K2',
+  toi: 'TESS',
+  tess: 'TESS',
+  kepler: 'Kepler'
+};
+
+function toStatus(predicted: string): PredictionResult['status'] {
+  const status = predicted.toLowerCase();
+  if (status === 'candidate' || status === 'confirmed') return 'candidate';
+  if (status === 'false_positive') return 'false_positive';
+  return 'unknown';
+}
+
+// Backend entries store the snake_case request fields; map them back onto PredictionInput
+function fromApiInput(data: ApiHistoryEntry['input_data']): PredictionInput | null {
+  return toPredictionInput(
+    Object.fromEntries(Object.entries(apiFieldNames).map(([key, field]) => [key, data[field]]))
+  );
+}
+
+// Null for entries whose stored input lacks one of the core parameters. The backend
+// doesn't store explanations, so the status's standard one is filled in
+export function predictionFromHistoryEntry(entry: ApiHistoryEntry): Prediction | null {
+  const input = fromApiInput(entry.input_data);
+  if (!input) return null;
+  const status = toStatus(entry.predicted_status);
+  return {
+    id: `${SERVER_ID_PREFIX}${entry.id}`,
+    timestamp: entry.timestamp,
+    modelName: modelTypesByBackendName[entry.model_name.toLowerCase()] ?? entry.model_name,
+    input,
+    result: {
+      status,
+      confidence: entry.confidence,
+      explanation: explanations[status],
+      source: entry.source,
+      probabilities: entry.probabilities,
+      predictionId: entry.id
+    }
+  };
+}
+
+/**
+ * Finds a stored prediction by id. `server-<n>` ids refer to backend history
+ * entry n; a local copy carrying that backend id is preferred because it keeps
+ * the explanation and warnings.
+ */
+export async function findStoredPrediction(id: string, signal?: AbortSignal): Promise<Prediction | null> {
+  const local = getPredictions();
+  const direct = local.find((p) => p.id === id);
+  if (direct || !id.startsWith(SERVER_ID_PREFIX)) return direct ?? null;
+
+  const serverId = Number(id.slice(SERVER_ID_PREFIX.length));
+  const synced = local.find((p) => p.result.predictionId === serverId);
+  if (synced) return synced;
+
+  const remote = await apiService.getPredictionHistory({ signal });
+  const entry = remote.find((e) => e.id === serverId);
+  return entry ? predictionFromHistoryEntry(entry) : null;
+}
+
+/**
+ * Merges local history with the backend's, deduplicating by backend prediction
+ * id. A local entry that carries an id is treated as stored on both sides even
+ * if it has fallen out of the backend's (capped) history listing. Backend
+ * entries missing a core input are left out.
+ */
+export function mergeHistory(local: Prediction[], remote: ApiHistoryEntry[]): SyncedPrediction[] {
+  const localIds = new Set<number>();
+
+  const merged: SyncedPrediction[] = local.map((p) => {
+    const id = p.result.predictionId;
+    if (id === undefined) return { ...p, location: 'local' };
+    localIds.add(id);
+    return { ...p, location: 'both' };
+  });
+
+  for (const entry of remote) {
+    const prediction = localIds.has(entry.id) ? null : predictionFromHistoryEntry(entry);
+    if (prediction) merged.push({ ...prediction, location: 'server' });
+  }
+
+  return merged;
+}
+
+/**
+ * Uploads local-only predictions to the backend and records the id it assigns
+ * on each local entry. Heuristic results stay local so the backend's history
+ * only holds model verdicts, as do entries saved before the source was
+ * recorded, which the backend would file as model results. Returns how many
+ * were pushed; stops at the first error.
+ */
+export async function pushLocalOnly(entries: SyncedPrediction[], signal?: AbortSignal): Promise<number> {
+  let pushed = 0;
+  for (const p of entries.filter((e) => e.location === 'local')) {
+    const source = p.result.source;
+    if (!source || source === 'offline_heuristic' || source === 'server_heuristic') continue;
+    const created = await apiService.createHistoryEntry(
+      {
+        timestamp: p.timestamp,
+        model_name: backendModelNames[p.modelName as ModelType] ?? p.modelName.toLowerCase(),
+        input_data: toApiInput(p.input),
+        predicted_status: p.result.status,
+        confidence: p.result.confidence,
+        probabilities: p.result.probabilities ?? {},
+        source
+      },
+      { signal }
+    );
+    updatePrediction(p.id, { result: { ...p.result, predictionId: created.id } });
+    pushed += 1;
+  }
+  return pushed;
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { NumericInputField } from '../types';
+import {
+  fieldUnits,
+  formatInUnits,
+  fromCanonical,
+  spreadFromCanonical,
+  spreadToCanonical,
+  toCanonical,
+  unitFor,
+  unitsUsed
+} from './units';
+
+const conversions = (Object.entries(fieldUnits) as Array<[NumericInputField, NonNullable<(typeof fieldUnits)[NumericInputField]>]>).flatMap(
+  ([field, units]) => units.map((unit) => [field, unit.id] as const)
+);
+
+describe('unit conversion', () => {
+  it.each(conversions)('round-trips %s through %s', (field, unit) => {
+    for (const value of [0.5, 12.4, 5778]) {
+      const shown = fromCanonical(field, value, { [field]: unit });
+      expect(toCanonical(field, shown, { [field]: unit }) / value).toBeCloseTo(1, 9);
+    }
+  });
+
+  it('converts offset temperature scales', () => {
+    expect(fromCanonical('planetTemperature', 273.15, { planetTemperature: 'C' })).toBe(0);
+    expect(fromCanonical('planetTemperature', 373.15, { planetTemperature: 'F' })).toBe(212);
+    expect(toCanonical('starTemperature', 32, { starTemperature: 'F' })).toBeCloseTo(273.15);
+  });
+
+  it('leaves dimensionless fields and unknown units alone', () => {
+    expect(unitFor('signalToNoise')).toBeNull();
+    expect(toCanonical('signalToNoise', 42, {})).toBe(42);
+    expect(unitFor('orbitalPeriod', { orbitalPeriod: 'fortnights' })?.id).toBe('days');
+  });
+});
+
+describe('spread conversion', () => {
+  it('ignores the offset of °C and °F', () => {
+    expect(spreadToCanonical('planetTemperature', 10, { planetTemperature: 'C' })).toBeCloseTo(10);
+    expect(spreadToCanonical('planetTemperature', 9, { planetTemperature: 'F' })).toBeCloseTo(5);
+    expect(spreadFromCanonical('planetTemperature', 5, { planetTemperature: 'F' })).toBeCloseTo(9);
+  });
+
+  it.each(conversions)('round-trips a %s spread through %s', (field, unit) => {
+    const shown = spreadFromCanonical(field, 2.5, { [field]: unit });
+    expect(spreadToCanonical(field, shown, { [field]: unit })).toBeCloseTo(2.5, 6);
+  });
+
+  it('scales like the value for proportional units', () => {
+    expect(spreadFromCanonical('orbitalPeriod', 1, { orbitalPeriod: 'hours' })).toBe(24);
+  });
+});
+
+describe('formatInUnits', () => {
+  it('shows the value in the preferred unit with its label', () => {
+    expect(formatInUnits('planetRadius', 11.209, { planetRadius: 'jupiter' })).toBe('1 R♃');
+    expect(formatInUnits('transitDepth', 1500, { transitDepth: 'ppt' })).toBe('1.5 ppt');
+    expect(formatInUnits('signalToNoise', 35.81)).toBe('35.8');
+  });
+
+  it('shows a dash for missing values', () => {
+    expect(formatInUnits('orbitalPeriod', undefined)).toBe('—');
+    expect(formatInUnits('orbitalPeriod', NaN)).toBe('—');
+  });
+});
+
+describe('unitsUsed', () => {
+  it('records the unit of every entered field that has one', () => {
+    const input = { signalToNoise: 10, transitDepth: 100, orbitalPeriod: 3, transitDuration: 2, planetRadius: 1, planetTemperature: 500 };
+    expect(unitsUsed(input, { transitDepth: 'percent' })).toEqual({
+      transitDepth: 'percent',
+      orbitalPeriod: 'days',
+      transitDuration: 'hours',
+      planetRadius: 'earth',
+      planetTemperature: 'K'
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { NumericInputField, PredictionInput, UnitPreferences } from '../types';
+
+export interface UnitDefinition {
+  id: string;
+  label: string;
+  toCanonical: (value: number) => number;
+  fromCanonical: (value: number) => number;
+}
+
+function scaled(id: string, label: string, canonicalPerUnit: number): UnitDefinition {
+  return {
+    id,
+    label,
+    toCanonical: (v) => v * canonicalPerUnit,
+    fromCanonical: (v) => v / canonicalPerUnit
+  };
+}
+
+function offset(id: string, label: string, toCanonical: (v: number) => number, fromCanonical: (v: number) => number): UnitDefinition {
+  return { id, label, toCanonical, fromCanonical };
+}
+
+const temperatureUnits = [
+  scaled('K', 'K', 1),
+  offset('C', '°C', (v) => v + 273.15, (v) => v - 273.15),
+  offset('F', '°F', (v) => ((v - 32) * 5) / 9 + 273.15, (v) => ((v - 273.15) * 9) / 5 + 32)
+];
+
+/**
+ * Selectable units per input field. The first entry is the canonical unit
+ * that PredictionInput values, the backend and the models use; fields not
+ * listed are dimensionless.
+ */
+export const fieldUnits: Partial<Record<NumericInputField, UnitDefinition[]>> = {
+  transitDepth: [scaled('ppm', 'ppm', 1), scaled('ppt', 'ppt', 1e3), scaled('percent', '%', 1e4)],
+  orbitalPeriod: [scaled('days', 'days', 1), scaled('hours', 'hours', 1 / 24), scaled('years', 'years', 365.25)],
+  transitDuration: [scaled('hours', 'hours', 1), scaled('minutes', 'min', 1 / 60), scaled('days', 'days', 24)],
+  planetRadius: [scaled('earth', 'R⊕', 1), scaled('jupiter', 'R♃', 11.209), scaled('km', 'km', 1 / 6371)],
+  planetTemperature: temperatureUnits,
+  starTemperature: temperatureUnits,
+  starRadius: [scaled('sun', 'R☉', 1), scaled('km', 'km', 1 / 695700)],
+  starMass: [scaled('sun', 'M☉', 1), scaled('jupiter', 'M♃', 1 / 1047.57)],
+  distance: [scaled('pc', 'pc', 1), scaled('ly', 'ly', 1 / 3.26156)],
+  inclination: [scaled('deg', 'deg', 1), scaled('rad', 'rad', 180 / Math.PI)]
+};
+
+// The unit a field is shown in: the preferred one if it exists for the field, else canonical
+export function unitFor(field: NumericInputField, units: UnitPreferences = {}): UnitDefinition | null {
+  const options = fieldUnits[field];
+  if (!options) return null;
+  return options.find((u) => u.id === units[field]) ?? options[0];
+}
+
+export function toCanonical(field: NumericInputField, value: number, units?: UnitPreferences): number {
+  return unitFor(field, units)?.toCanonical(value) ?? value;
+}
+
+export function fromCanonical(field: NumericInputField, value: number, units?: UnitPreferences): number {
+  // Round off float noise from the conversion (0.30000000000000004 → 0.3)
+  return Number((unitFor(field, units)?.fromCanonical(value) ?? value).toPrecision(10));
+}
+
+// Spreads (± uncertainties) convert by scale only; the offset of °C and °F doesn't apply to a difference
+export function spreadToCanonical(field: NumericInputField, spread: number, units?: UnitPreferences): number {
+  return toCanonical(field, spread, units) - toCanonical(field, 0, units);
+}
+
+export function spreadFromCanonical(field: NumericInputField, spread: number, units?: UnitPreferences): number {
+  return Number((fromCanonical(field, spread, units) - fromCanonical(field, 0, units)).toPrecision(10));
+}
+
+// "0.25 R♃" style display of a canonical value in the preferred unit
+export function formatInUnits(
+  field: NumericInputField,
+  value: number | undefined,
+  units?: UnitPreferences,
+  digits = 3
+): string {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return '—';
+  const shown = fromCanonical(field, value, units);
+  const text = Math.abs(shown) >= 1000 ? shown.toFixed(0) : String(Number(shown.toPrecision(digits)));
+  const unit = unitFor(field, units);
+  return unit ? `${text} ${unit.label}` : text;
+}
+
+// The units in effect for each field of an input, for recording alongside a prediction
+export function unitsUsed(input: PredictionInput, units: UnitPreferences): UnitPreferences {
+  const used: UnitPreferences = {};
+  for (const field of Object.keys(fieldUnits) as NumericInputField[]) {
+    const unit = unitFor(field, units);
+    if (unit && input[field] !== undefined) used[field] = unit.id;
+  }
+  return used;
+}
@@ -17,6 +17,7 @@ class BaseExoplanetClassifier:
         self.scaler = None
         self.target_encoder = None
         self.feature_names = None
+        self.feature_envelope = None
         self.is_trained = False
         # Standardized feature set we will train on across datasets
         self.desired_features = [
@@ -119,6 +120,8 @@ class BaseExoplanetClassifier:
             X, y, test_size=0.2, random_state=42, stratify=y
         )
         
+        self.feature_envelope = self._feature_envelope(X_train)
+        
         # Scale features
         self.scaler = StandardScaler()
         X_train_scaled = self.scaler.fit_transform(X_train)
@@ -141,6 +144,27 @@ class BaseExoplanetClassifier:
         self.is_trained = True
         return accuracy
     
+    def _feature_envelope(self, X):
+        """Summarize the range of each training feature (before scaling).
+
+        Features with a single value (e.g. a column missing from the dataset and
+        filled with NaN/median) are left out, since they carry no range to check.
+        """
+        envelope = {}
+        for column in X.columns:
+            values = X[column].dropna()
+            if values.nunique() <= 1:
+                continue
+            p1, p50, p99 = np.percentile(values, [1, 50, 99])
+            envelope[column] = {
+                'min': float(values.min()),
+                'p1': float(p1),
+                'p50': float(p50),
+                'p99': float(p99),
+                'max': float(values.max()),
+            }
+        return envelope
+    
     def predict(self, input_data):
         """Make prediction on input data"""
         if not self.is_trained:
@@ -178,6 +202,47 @@ class BaseExoplanetClassifier:
             }
         }
     
+    def export_json(self):
+        """Serialize the scaler and forest into a plain dict for in-browser evaluation.
+
+        Each tree is stored as parallel node arrays (sklearn's own layout): a node
+        with left == -1 is a leaf, otherwise go left when x[feature] <= threshold.
+        Node values are normalized to class probabilities. Internal nodes keep
+        theirs so the frontend can split a prediction into per-feature
+        contributions along the decision path.
+        """
+        if not self.is_trained:
+            raise ValueError("Model must be trained before exporting")
+        
+        trees = []
+        for estimator in self.model.estimators_:
+            tree = estimator.tree_
+            values = []
+            for node_value in tree.value:
+                counts = node_value[0]
+                total = counts.sum()
+                values.append([round(float(c / total), 6) if total > 0 else 0.0 for c in counts])
+            trees.append({
+                'feature': tree.feature.tolist(),
+                'threshold': [float(t) for t in tree.threshold],
+                'left': tree.children_left.tolist(),
+                'right': tree.children_right.tolist(),
+                'value': values,
+            })
+        
+        return {
+            'model': self.model_name,
+            'features': list(self.feature_names),
+            'classes': [str(c) for c in self.target_encoder.classes_],
+            'scaler': {
+                'mean': [float(m) for m in self.scaler.mean_],
+                'scale': [float(s) for s in self.scaler.scale_],
+            },
+            'feature_importance': [float(i) for i in self.model.feature_importances_],
+            'envelope': self.feature_envelope,
+            'trees': trees,
+        }
+    
     def get_feature_importance(self, top_n=10):
         """Get feature importance scores"""
         if not self.is_trained:
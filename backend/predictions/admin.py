@@ -3,14 +3,14 @@ from .models import Prediction
 
 @admin.register(Prediction)
 class PredictionAdmin(admin.ModelAdmin):
-    list_display = ['id', 'timestamp', 'model_name', 'predicted_status', 'confidence', 'input_summary']
-    list_filter = ['model_name', 'predicted_status', 'timestamp']
+    list_display = ['id', 'timestamp', 'model_name', 'source', 'predicted_status', 'confidence', 'input_summary']
+    list_filter = ['model_name', 'source', 'predicted_status', 'timestamp']
     search_fields = ['input_data']
     readonly_fields = ['timestamp']
     
     fieldsets = (
         ('Basic Info', {
-            'fields': ('timestamp', 'model_name')
+            'fields': ('timestamp', 'model_name', 'source')
         }),
         ('Prediction Results', {
             'fields': ('predicted_status', 'confidence', 'probabilities')
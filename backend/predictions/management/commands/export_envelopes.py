@@ -0,0 +1,88 @@
+import math
+import os
+from django.conf import settings
+from django.core.management.base import BaseCommand, CommandError
+from .export_forests import CLASSIFIERS
+
+# Frontend mission names, in the order they appear in the generated file
+MISSIONS = {
+    'kepler': 'Kepler',
+    'k2': 'K2',
+    'toi': 'TESS',
+}
+
+# Training columns mapped to the frontend's CoreFeature keys
+FIELDS = {
+    'koi_model_snr': 'signalToNoise',
+    'koi_depth': 'transitDepth',
+    'koi_period': 'orbitalPeriod',
+    'koi_duration': 'transitDuration',
+    'koi_prad': 'planetRadius',
+    'koi_teq': 'planetTemperature',
+}
+
+HEADER = """import { CoreFeature, FeatureEnvelope, ModelType } from '../types';
+
+/**
+ * Feature ranges of the rows each mission's model is trained on, for builds
+ * without forest exports; an export's own ranges take precedence (see
+ * utils/envelope). Written by `python manage.py export_envelopes` in backend/
+ * from the training tables in backend/data, so rerun that after the data
+ * changes rather than editing this file.
+ *
+ * Features a model has no spread for are left out (TESS has no SNR column,
+ * so it is filled with a single value in training). The TOI table has no
+ * equilibrium temperature; the TESS model is trained on st_teff in its place.
+ */
+export const trainingEnvelopes: Record<ModelType, Partial<Record<CoreFeature, FeatureEnvelope>>> = {
+"""
+
+# Tells the frontend these are the training rows' ranges, not hand-rounded ones
+FOOTER = """
+// Written from the training rows, so the UI treats these ranges as exact
+export const trainingEnvelopesExact = true;
+"""
+
+
+def rounded(value):
+    """Four significant figures, or a whole number for anything of 1000 or more"""
+    if value == 0:
+        return '0'
+    digits = 3 - math.floor(math.log10(abs(value)))
+    result = round(value, digits) if digits > 0 else round(value)
+    return str(int(result)) if float(result).is_integer() else repr(result)
+
+
+class Command(BaseCommand):
+    help = 'Train each mission classifier and write its feature ranges to the frontend as a fallback envelope'
+
+    def add_arguments(self, parser):
+        parser.add_argument(
+            '--output',
+            default=os.path.join(settings.BASE_DIR.parent, 'Exoplanet-main', 'src', 'data', 'trainingEnvelopes.ts'),
+            help='File to write (default: the frontend src/data/trainingEnvelopes.ts)',
+        )
+
+    def handle(self, *args, **options):
+        blocks = []
+        for name, mission in MISSIONS.items():
+            classifier = CLASSIFIERS[name]()
+            self.stdout.write(f"Training {name} model...")
+            try:
+                classifier.load_and_train()
+            except FileNotFoundError as e:
+                raise CommandError(str(e))
+
+            lines = []
+            for column, field in FIELDS.items():
+                stats = classifier.feature_envelope.get(column)
+                if stats is None:
+                    continue
+                values = ', '.join(f"{key}: {rounded(stats[key])}" for key in ('min', 'p1', 'p50', 'p99', 'max'))
+                lines.append(f"    {field}: {{ {values} }}")
+            blocks.append(f"  {mission}: {{\n" + ',\n'.join(lines) + "\n  }")
+
+        path = options['output']
+        with open(path, 'w') as f:
+            f.write(HEADER + ',\n'.join(blocks) + '\n};\n' + FOOTER)
+        self.stdout.write(self.style.SUCCESS(f"Wrote training envelopes to {path}"))
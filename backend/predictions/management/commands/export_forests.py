@@ -0,0 +1,50 @@
+import json
+import os
+from django.conf import settings
+from django.core.management.base import BaseCommand, CommandError
+from ml_models import KeplerClassifier, K2Classifier, TOIClassifier
+
+# File names match the backend model names used by the frontend (k2, toi, kepler)
+CLASSIFIERS = {
+    'kepler': KeplerClassifier,
+    'k2': K2Classifier,
+    'toi': TOIClassifier,
+}
+
+
+class Command(BaseCommand):
+    help = 'Train each mission classifier and export it as JSON for in-browser inference'
+
+    def add_arguments(self, parser):
+        parser.add_argument(
+            '--output',
+            default=os.path.join(settings.BASE_DIR.parent, 'Exoplanet-main', 'public', 'forests'),
+            help='Directory to write <model>.json files into (default: the frontend public/forests folder)',
+        )
+        parser.add_argument(
+            '--model',
+            choices=sorted(CLASSIFIERS.keys()),
+            help='Export only this model',
+        )
+
+    def handle(self, *args, **options):
+        output_dir = options['output']
+        os.makedirs(output_dir, exist_ok=True)
+        
+        names = [options['model']] if options['model'] else list(CLASSIFIERS.keys())
+        for name in names:
+            classifier = CLASSIFIERS[name]()
+            self.stdout.write(f"Training {name} model...")
+            try:
+                accuracy = classifier.load_and_train()
+            except FileNotFoundError as e:
+                raise CommandError(str(e))
+            
+            path = os.path.join(output_dir, f'{name}.json')
+            with open(path, 'w') as f:
+                json.dump(classifier.export_json(), f, separators=(',', ':'))
+            
+            size_kb = os.path.getsize(path) / 1024
+            self.stdout.write(self.style.SUCCESS(
+                f"Exported {name} (accuracy {accuracy:.3f}) to {path} ({size_kb:.0f} KB)"
+            ))
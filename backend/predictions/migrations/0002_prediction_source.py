@@ -0,0 +1,16 @@
+from django.db import migrations, models
+
+
+class Migration(migrations.Migration):
+
+    dependencies = [
+        ('predictions', '0001_initial'),
+    ]
+
+    operations = [
+        migrations.AddField(
+            model_name='prediction',
+            name='source',
+            field=models.CharField(choices=[('model', 'Backend Model'), ('server_heuristic', 'Server Heuristic'), ('offline_model', 'In-Browser Model'), ('offline_heuristic', 'Offline Heuristic')], default='model', max_length=20),
+        ),
+    ]
@@ -17,6 +17,14 @@ class Prediction(models.Model):
         ('unknown', 'Unknown'),
     ]
     
+    # Where the result was computed; entries pushed from the frontend may come from offline inference
+    SOURCE_CHOICES = [
+        ('model', 'Backend Model'),
+        ('server_heuristic', 'Server Heuristic'),
+        ('offline_model', 'In-Browser Model'),
+        ('offline_heuristic', 'Offline Heuristic'),
+    ]
+    
     id = models.AutoField(primary_key=True)
     timestamp = models.DateTimeField(auto_now_add=True)
     model_name = models.CharField(max_length=20, choices=MODEL_CHOICES)
@@ -24,6 +32,7 @@ class Prediction(models.Model):
     predicted_status = models.CharField(max_length=20, choices=STATUS_CHOICES)
     confidence = models.FloatField()
     probabilities = models.JSONField()
+    source = models.CharField(max_length=20, choices=SOURCE_CHOICES, default='model')
     
     class Meta:
         ordering = ['-timestamp']
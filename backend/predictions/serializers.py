@@ -59,5 +59,5 @@ class PredictionSerializer(serializers.ModelSerializer):
     class Meta:
         model = Prediction
         fields = ['id', 'timestamp', 'model_name', 'input_data', 
-                 'predicted_status', 'confidence', 'probabilities']
+                 'predicted_status', 'confidence', 'probabilities', 'source']
         read_only_fields = ['id', 'timestamp']
@@ -4,6 +4,7 @@ from rest_framework.decorators import api_view
 from rest_framework.response import Response
 from rest_framework import status
 from django.http import JsonResponse
+from django.utils.dateparse import parse_datetime
 from .serializers import PredictionInputSerializer, PredictionResultSerializer, PredictionSerializer
 from .models import Prediction
 from ml_models import KeplerClassifier, K2Classifier, TOIClassifier
@@ -64,6 +65,15 @@ def get_model_instance(model_name):
     
     return None
 
+def training_feature_names(model_name):
+    """Columns a model is trained on, without triggering training"""
+    model = {'kepler': kepler_model, 'k2': k2_model, 'toi': toi_model}.get(model_name)
+    if model is not None and model.is_trained and model.feature_names:
+        return list(model.feature_names)
+    # Not loaded yet: every classifier trains on its standardized feature set
+    classifier = {'kepler': KeplerClassifier, 'k2': K2Classifier, 'toi': TOIClassifier}[model_name]()
+    return list(classifier.desired_features)
+
 @api_view(['GET'])
 def model_info(request):
     """Get information about available models"""
@@ -118,6 +128,11 @@ def model_info(request):
         }
     }
     
+    # The koi_* columns each model is trained on, so the frontend offers exactly
+    # the inputs it uses; `features` above is descriptive only
+    for key, info in models_info.items():
+        info['feature_names'] = training_feature_names(key)
+    
     return Response(models_info)
 
 @api_view(['POST'])
@@ -131,12 +146,15 @@ def predict(request):
     # Get model name from request
     model_name = request.data.get('model', 'kepler').lower()
     
+    # Exploratory runs (e.g. sensitivity sweeps) ask not to be stored in history
+    record = request.data.get('record', True) is not False
+    
     # Get model instance
     model = get_model_instance(model_name)
     if model is None or not model.is_trained:
         # Fallback to mock prediction for testing
         logger.warning(f"Model {model_name} not available or not trained, using mock prediction")
-        return get_mock_prediction(serializer.validated_data, model_name)
+        return get_mock_prediction(serializer.validated_data, model_name, record)
     
     try:
         # Convert frontend parameters to model-compatible format
@@ -162,6 +180,20 @@ def predict(request):
             model_input['koi_steff'] = input_data['star_temperature']
         if 'star_radius' in input_data:
             model_input['koi_srad'] = input_data['star_radius']
+        if 'star_mass' in input_data:
+            model_input['koi_smass'] = input_data['star_mass']
+        if 'metallicity' in input_data:
+            model_input['koi_smet'] = input_data['metallicity']
+        if 'surface_gravity' in input_data:
+            model_input['koi_slogg'] = input_data['surface_gravity']
+        if 'age' in input_data:
+            model_input['koi_sage'] = input_data['age']
+        if 'impact_parameter' in input_data:
+            model_input['koi_impact'] = input_data['impact_parameter']
+        if 'eccentricity' in input_data:
+            model_input['koi_eccen'] = input_data['eccentricity']
+        if 'inclination' in input_data:
+            model_input['koi_incl'] = input_data['inclination']
         
         # Map flags
         if 'flag_not_transit' in input_data:
@@ -217,17 +249,19 @@ def predict(request):
         }
         
         # Save prediction to database
-        try:
-            prediction = Prediction.objects.create(
-                model_name=model_name,
-                input_data=input_data,
-                predicted_status=prediction_status,
-                confidence=confidence,
-                probabilities=prediction_result['probabilities']
-            )
-            result['prediction_id'] = prediction.id
-        except Exception as e:
-            logger.error(f"Failed to save prediction: {e}")
+        if record:
+            try:
+                prediction = Prediction.objects.create(
+                    model_name=model_name,
+                    input_data=input_data,
+                    predicted_status=prediction_status,
+                    confidence=confidence,
+                    probabilities=prediction_result['probabilities'],
+                    source='model'
+                )
+                result['prediction_id'] = prediction.id
+            except Exception as e:
+                logger.error(f"Failed to save prediction: {e}")
         
         return Response(result)
         
@@ -238,9 +272,24 @@ def predict(request):
             status=status.HTTP_500_INTERNAL_SERVER_ERROR
         )
 
-@api_view(['GET'])
+@api_view(['GET', 'POST'])
 def prediction_history(request):
-    """Get prediction history"""
+    """Get prediction history, or store a prediction made elsewhere (e.g. offline in the frontend)"""
+    if request.method == 'POST':
+        serializer = PredictionSerializer(data=request.data)
+        if not serializer.is_valid():
+            return Response(serializer.errors, status=status.HTTP_400_BAD_REQUEST)
+        
+        prediction = serializer.save()
+        
+        # timestamp is auto_now_add; keep the time the prediction was actually made
+        made_at = parse_datetime(str(request.data.get('timestamp', '')))
+        if made_at:
+            Prediction.objects.filter(pk=prediction.pk).update(timestamp=made_at)
+            prediction.refresh_from_db()
+        
+        return Response(PredictionSerializer(prediction).data, status=status.HTTP_201_CREATED)
+    
     predictions = Prediction.objects.all()[:50]  # Limit to last 50
     serializer = PredictionSerializer(predictions, many=True)
     return Response(serializer.data)
@@ -298,7 +347,7 @@ def test_model(request):
     except Exception as e:
         return Response({'error': str(e)}, status=status.HTTP_500_INTERNAL_SERVER_ERROR)
 
-def get_mock_prediction(input_data, model_name):
+def get_mock_prediction(input_data, model_name, record=True):
     """Generate mock prediction for testing when ML models are not available"""
     
     # Calculate a mock confidence score based on input parameters
@@ -366,17 +415,19 @@ def get_mock_prediction(input_data, model_name):
     }
     
     # Save mock prediction to database
-    try:
-        prediction = Prediction.objects.create(
-            model_name=model_name,
-            input_data=input_data,
-            predicted_status=prediction_status,
-            confidence=confidence,
-            probabilities=probabilities
-        )
-        result['prediction_id'] = prediction.id
-    except Exception as e:
-        logger.error(f"Failed to save mock prediction: {e}")
+    if record:
+        try:
+            prediction = Prediction.objects.create(
+                model_name=model_name,
+                input_data=input_data,
+                predicted_status=prediction_status,
+                confidence=confidence,
+                probabilities=probabilities,
+                source='server_heuristic'
+            )
+            result['prediction_id'] = prediction.id
+        except Exception as e:
+            logger.error(f"Failed to save mock prediction: {e}")
     
     return Response(result)
 